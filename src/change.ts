@@ -0,0 +1,79 @@
+/**
+ * A replacement of the range `[start, end)` of the old value with `text`.
+ */
+export interface ContentChange {
+	readonly start: number;
+	readonly end: number;
+	readonly text: string;
+}
+
+/**
+ * Find the single range replaced between two values.
+ *
+ * The caret after the edit resolves ambiguous cases,
+ * e.g. typing `a` between `aa` is an insertion at the caret rather than at the end.
+ */
+export function diffText(old_value: string, new_value: string, caret = new_value.length): ContentChange | undefined {
+	if (old_value === new_value) {
+		return void 0;
+	}
+
+	const min_length = Math.min(old_value.length, new_value.length);
+
+	let suffix = 0;
+	const max_suffix = Math.min(min_length, new_value.length - caret);
+	while (
+		suffix < max_suffix &&
+		old_value[old_value.length - 1 - suffix] === new_value[new_value.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	let prefix = 0;
+	const max_prefix = min_length - suffix;
+	while (prefix < max_prefix && old_value[prefix] === new_value[prefix]) {
+		prefix++;
+	}
+
+	return {
+		start: prefix,
+		end: old_value.length - suffix,
+		text: new_value.slice(prefix, new_value.length - suffix),
+	};
+}
+
+export function applyChange(value: string, change: ContentChange): string {
+	return value.slice(0, change.start) + change.text + value.slice(change.end);
+}
+
+/**
+ * Where `offset` ends up after the change.
+ * An offset inside the replaced range moves to the end of the new text.
+ */
+export function mapOffset(offset: number, change: ContentChange): number {
+	if (offset <= change.start) {
+		return offset;
+	}
+	if (offset >= change.end) {
+		return offset + change.text.length - (change.end - change.start);
+	}
+	return change.start + change.text.length;
+}
+
+/**
+ * Move the ranges along with the changes, in the order they were applied.
+ * The ranges which did not move are returned as they are.
+ */
+export function mapRanges<T extends { readonly start: number; readonly end: number }>(
+	ranges: readonly T[],
+	changes: readonly ContentChange[],
+): T[] {
+	return ranges.map((range) => {
+		let { start, end } = range;
+		for (const change of changes) {
+			start = mapOffset(start, change);
+			end = Math.max(start, mapOffset(end, change));
+		}
+		return start === range.start && end === range.end ? range : { ...range, start, end };
+	});
+}
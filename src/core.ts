@@ -1,8 +1,40 @@
 import type { BundledLanguage, BundledTheme, Highlighter } from "shiki";
-import type { EditorPlugin } from "./plugins/index.js";
+import type { EditorPlugin, IDisposable } from "./plugins/index.js";
+import {
+	composeEdits,
+	isMacintosh,
+	selectionAfterEdits,
+	sortEdits,
+	type PatchAction,
+	type SelectAction,
+} from "./plugins/common.js";
 
+import { diffText, mapRanges, type ContentChange } from "./change.js";
+import { createEmitter, type EditorEvent } from "./event.js";
+import { createHistory, type EditKind, type HistoryEntry } from "./history.js";
+import { guessIndentation } from "./indentation.js";
+import {
+	evaluateWhen,
+	matchesKey,
+	resolveKeybindings,
+	type CommandHandler,
+	type Keybinding,
+} from "./keybindings.js";
+import { hookMarkerHover, mapMarkers, markerDecorations, type Marker } from "./markers.js";
+import { createLinesView, type Decoration } from "./render.js";
 import { hookScroll } from "./scroll.js";
-import { injectStyle } from "./style.js";
+import { injectStyle, themeStyle } from "./style.js";
+import {
+	createTokenizer,
+	findLine,
+	lineStarts,
+	lineTokens,
+	type LinesPatch,
+	type TokenInfo,
+	type TokenizedLine,
+	type Tokenizer,
+} from "./tokenize.js";
+import type { WorkerHighlighter } from "./worker.js";
 
 export interface IndentOptions {
 	/**
@@ -21,25 +53,151 @@ export interface IndentOptions {
 
 export interface EditorOptions extends IndentOptions {
 	/**
-	 * Control the rendering of line numbers.
+	 * Guess `tabSize` and `insertSpaces` from the content when the editor is created and when `value` is set.
+	 * Defaults to false, so the `tabSize` and `insertSpaces` given are kept.
+	 */
+	readonly detectIndentation: boolean;
+	/**
+	 * Control the rendering of line numbers:
+	 * - `relative` shows the distance from the caret line, and the number of the caret line;
+	 * - `interval` shows every `lineNumbersInterval` line number, and the number of the caret line;
+	 * - a function formats the line numbers, e.g. `(line) => line.toString(16)`.
+	 *
 	 * Defaults to `on`.
 	 */
-	readonly lineNumbers: "on" | "off";
+	readonly lineNumbers: LineNumbers;
+	/**
+	 * The number of the first line, e.g. when the value is an excerpt of a larger file.
+	 * Defaults to 1.
+	 */
+	readonly lineNumbersStart: number;
+	/**
+	 * The interval of the line numbers shown when `lineNumbers` is `interval`.
+	 * Defaults to 10.
+	 */
+	readonly lineNumbersInterval: number;
+	/**
+	 * Control the wrapping of long lines, the textarea and the output wrap the same way:
+	 * - `on` wraps at the width of the editor;
+	 * - `bounded` wraps at the width of the editor or at `wordWrapColumn`, whichever is smaller.
+	 *
+	 * Defaults to `off`.
+	 */
+	readonly wordWrap: "off" | "on" | "bounded";
+	/**
+	 * The column to wrap at when `wordWrap` is `bounded`.
+	 * Defaults to 80.
+	 */
+	readonly wordWrapColumn: number;
+	/**
+	 * Control the indentation of the rows after the first of a wrapped line:
+	 * - `none` starts them at the first column;
+	 * - `same` indents them as much as the first row.
+	 *
+	 * Only the output is indented, as a textarea can't indent each line on its own,
+	 * so the caret can be off after an indented line which wraps into more rows in the output.
+	 *
+	 * Defaults to `none`.
+	 */
+	readonly wrappingIndent: "none" | "same";
+	/**
+	 * Only render the lines around the visible part of the editor, for documents with many thousands of lines.
+	 * The first lines are highlighted at once and the rest in the background,
+	 * use `createWorkerHighlighter` to keep the highlighting off the main thread.
+	 * It has no effect when `wordWrap` is on, as the lines must have a fixed height.
+	 * Defaults to false.
+	 */
+	readonly virtualRendering: boolean;
 	/**
 	 * Should the editor be read only.
 	 * Defaults to false.
 	 */
 	readonly readOnly: boolean;
 	readonly language: BundledLanguage | "plaintext" | "txt" | "text" | "plain" | (string & {});
-	readonly theme: BundledTheme | "none" | (string & {});
+	/**
+	 * A single theme, or a theme per color variant such as `{ light: "github-light", dark: "github-dark" }`.
+	 *
+	 * Every variant is highlighted at once and the editor switches between them with CSS, without re-highlighting:
+	 * - the `light` variant, or the first one, is used by default;
+	 * - the `dark` variant is used when the system prefers a dark color scheme;
+	 * - a class named after a variant on the container or one of its ancestors takes precedence, e.g. `<html class="dark">`.
+	 */
+	readonly theme: ThemeName | ThemeVariants;
+	/**
+	 * The keybindings of the user, they take precedence over the keybindings of the plugins.
+	 * A keybinding to `-command` removes the keybindings of the plugins binding the key to `command`.
+	 * Defaults to none.
+	 */
+	readonly keybindings: readonly Keybinding[];
+}
+
+export type LineNumbers = "on" | "off" | "relative" | "interval" | ((line: number) => string);
+
+export type ThemeName = BundledTheme | "none" | (string & {});
+
+/**
+ * A theme per color variant, variant names must be valid CSS class names.
+ */
+export interface ThemeVariants {
+	readonly [variant: string]: ThemeName;
 }
 
 export interface InitOptions extends Pick<EditorOptions, "language" | "theme"> {
 	readonly value?: string;
+	/**
+	 * Tokenize off the main thread with an adapter created by `createWorkerHighlighter`.
+	 * The highlighter of the editor still provides the colors of the themes, load the themes in both.
+	 */
+	readonly worker?: WorkerHighlighter;
 }
 
 export interface UpdateOptions extends Partial<EditorOptions> {}
 
+export interface ContentChangeEvent {
+	/**
+	 * The changes in the order they were applied.
+	 * The offsets of each change are relative to the value before that change.
+	 */
+	readonly changes: readonly ContentChange[];
+	/**
+	 * The value after the changes.
+	 */
+	readonly value: string;
+	/**
+	 * The changes revert an undo step, or apply it again.
+	 */
+	readonly isUndoing: boolean;
+	readonly isRedoing: boolean;
+}
+
+export interface SelectionChangeEvent {
+	readonly selectionStart: number;
+	readonly selectionEnd: number;
+	readonly selectionDirection: "forward" | "backward" | "none";
+}
+
+export interface OptionsChangeEvent {
+	readonly options: EditorOptions;
+	/**
+	 * Only the options whose value actually changed.
+	 */
+	readonly changed: UpdateOptions;
+}
+
+export interface ApplyEditsOptions {
+	/**
+	 * The selection after the edits, relative to the new value.
+	 * Defaults to the `mode` of the last edit, applied to the text of that edit,
+	 * or to a caret at the end of the last edit after several edits without a mode.
+	 */
+	readonly selection?: SelectAction;
+	/**
+	 * Add the edits to the undo step of the previous edit, e.g. the edits made in response to it,
+	 * so that they are undone together.
+	 */
+	readonly mergeUndo?: boolean;
+}
+
 interface EditorOptionsWithValue extends EditorOptions {
 	readonly value: string;
 }
@@ -59,14 +217,116 @@ export interface ShikiCode {
 	 * The highlighter instance used by the editor.
 	 */
 	readonly highlighter: Highlighter;
+	/**
+	 * The adapter tokenizing in a worker, when the editor was created with the `worker` option.
+	 */
+	readonly worker: WorkerHighlighter | undefined;
+	/**
+	 * The current options, e.g. the indentation guessed by `detectIndentation` when the editor was created.
+	 */
+	readonly options: Readonly<EditorOptions>;
 
 	/**
 	 * The current value of the editor.
 	 * Setting this value will update the editor and force a re-render.
 	 */
 	value: string;
+	/**
+	 * The highlighted lines as rendered in the output.
+	 */
+	readonly tokenizedLines: readonly TokenizedLine[];
+	/**
+	 * The token at `offset` as rendered in the output, with its TextMate scopes.
+	 * It is `undefined` at the end of a line, and while the line is being highlighted by a highlighter in a worker.
+	 * The scopes are only tokenized once this or `getLineTokens` is first called, the document is tokenized again then.
+	 */
+	getTokenAt(offset: number): TokenInfo | undefined;
+	/**
+	 * The tokens of a line as rendered in the output, with their TextMate scopes, the first line is `0`.
+	 */
+	getLineTokens(line: number): TokenInfo[];
+	/**
+	 * Create a tokenizer with the highlighter of the editor, in the worker when the editor uses one.
+	 * With a worker, the lines are plain text until it responds, the highlighted lines are passed to `onPatch` then.
+	 */
+	createTokenizer(onPatch: (patch: LinesPatch) => void): Tokenizer;
+	/**
+	 * Tokenize and render the whole document from scratch.
+	 * Edits made by typing only re-highlight the changed lines.
+	 */
 	forceRender(value?: string): void;
 
+	/**
+	 * Replace ranges of the value as a single undo step.
+	 * The offsets of every edit are relative to the current value,
+	 * the offsets of later edits are adjusted for the earlier ones.
+	 * The edits must not overlap.
+	 * Nothing is edited while the editor is `readOnly`, the selection is still applied without edits.
+	 */
+	applyEdits(edits: readonly PatchAction[], options?: ApplyEditsOptions): void;
+
+	/**
+	 * The editor keeps its own undo history, bound to `Ctrl+Z`, `Ctrl+Shift+Z` and `Ctrl+Y`.
+	 * Consecutive typing is merged into a single undo step.
+	 */
+	undo(): void;
+	redo(): void;
+	readonly canUndo: boolean;
+	readonly canRedo: boolean;
+	/**
+	 * Make the next edit start a new undo step.
+	 */
+	pushUndoStop(): void;
+
+	/**
+	 * Replace the decorations added by `owner`, they are drawn into the output layer.
+	 * The offsets are relative to the current value, update them when the content changes.
+	 */
+	setDecorations(owner: string, decorations: readonly Decoration[]): void;
+	/**
+	 * Remove the decorations of `oldIds` and add `newDecorations`, returns the ids of the new decorations.
+	 * Unlike `setDecorations`, these decorations move along with the edits until they are removed,
+	 * setting `value` removes them.
+	 */
+	deltaDecorations(oldIds: readonly string[], newDecorations: readonly Decoration[]): string[];
+	/**
+	 * The current range of a decoration added by `deltaDecorations`.
+	 */
+	getDecoration(id: string): Decoration | undefined;
+
+	/**
+	 * Register the handler of a command, which the keybindings and `executeCommand` run.
+	 * Dispose to restore the handler registered before.
+	 */
+	registerCommand(id: string, handler: CommandHandler): IDisposable;
+	/**
+	 * Run a command, returns false when there is no handler or the handler returned false.
+	 */
+	executeCommand(id: string, args?: unknown): boolean;
+	/**
+	 * Bind keys to commands, e.g. the default keys of a plugin, the `keybindings` option takes precedence.
+	 * Among the keybindings of a key, those with a `when` condition are tried first, then the ones added later first,
+	 * until a command handles the key.
+	 * Dispose to remove the keybindings.
+	 */
+	addKeybindings(keybindings: readonly Keybinding[]): IDisposable;
+	/**
+	 * Set a context key for the `when` conditions of the keybindings, e.g. `suggestWidgetVisible`.
+	 * The editor provides `editorHasSelection`, `editorReadonly`, `editorLangId` and `isMac`.
+	 */
+	setContext(key: string, value: unknown): void;
+
+	/**
+	 * Replace the markers reported by `owner`, such as the results of a linter.
+	 * They are drawn as squiggles with an icon in the gutter, and their messages are shown on hover.
+	 * The markers move along with the edits until they are replaced, setting `value` removes them.
+	 */
+	setMarkers(owner: string, markers: readonly Marker[]): void;
+	/**
+	 * The markers of `owner`, or of every owner.
+	 */
+	getMarkers(owner?: string): Marker[];
+
 	/**
 	 * Make sure the theme or language is loaded before calling this method.
 	 */
@@ -74,23 +334,54 @@ export interface ShikiCode {
 
 	addPlugin(plugin: EditorPlugin): void;
 
+	/**
+	 * Fired after the value changed, either by typing, by plugins or by setting `value`.
+	 */
+	readonly onDidChangeContent: EditorEvent<ContentChangeEvent>;
+	readonly onDidChangeSelection: EditorEvent<SelectionChangeEvent>;
+	readonly onDidChangeOptions: EditorEvent<OptionsChangeEvent>;
+	readonly onDidFocus: EditorEvent<void>;
+	readonly onDidBlur: EditorEvent<void>;
+	/**
+	 * Fired after the indentation is guessed from the content, even when the options did not change.
+	 */
+	readonly onDidDetectIndentation: EditorEvent<IndentOptions>;
+	/**
+	 * Fired after highlighted lines are rendered into the output, with the lines which changed.
+	 * The highlighting may arrive later than the content change when the highlighter runs in a worker.
+	 */
+	readonly onDidChangeTokens: EditorEvent<LinesPatch>;
+
 	dispose(): void;
 }
 
 const defaultOptions = {
 	lineNumbers: "on",
+	lineNumbersStart: 1,
+	lineNumbersInterval: 10,
+	wordWrap: "off",
+	wordWrapColumn: 80,
+	wrappingIndent: "none",
+	virtualRendering: false,
 	readOnly: false,
 	tabSize: 4,
 	insertSpaces: true,
+	detectIndentation: false,
+	keybindings: [],
 } as const;
 
+// in virtual mode, the lines after the first ones are tokenized in the background
+const virtual_tokenize_lines = 1000;
+
 export function shikiCode(): ShikiCodeFactory {
 	const editor_options = { ...defaultOptions };
 	const plugin_list: EditorPlugin[] = [];
 
 	return {
 		create(domElement: HTMLElement, highlighter: Highlighter, options: InitOptions): ShikiCode {
-			return create(domElement, highlighter, { value: "", ...editor_options, ...options }, plugin_list);
+			const { worker, ...init_options } = options;
+			const create_options = { value: "", ...editor_options, ...init_options };
+			return create(domElement, highlighter, worker, create_options, plugin_list);
 		},
 		withOptions(options: UpdateOptions): ShikiCodeFactory {
 			Object.assign(editor_options, options);
@@ -106,6 +397,7 @@ export function shikiCode(): ShikiCodeFactory {
 function create(
 	domElement: HTMLElement,
 	highlighter: Highlighter,
+	worker: WorkerHighlighter | undefined,
 	editor_options: EditorOptionsWithValue,
 	plugin_list: EditorPlugin[],
 ): ShikiCode {
@@ -120,71 +412,540 @@ function create(
 	domElement.append(input);
 	domElement.append(output);
 
+	if (editor_options.detectIndentation) {
+		Object.assign(editor_options, guessIndentation(editor_options.value));
+	}
+
 	updateIO(input, output, editor_options);
-	updateContainer(domElement, highlighter, editor_options.theme);
+	let removeThemeStyle = updateContainer(domElement, highlighter, editor_options.theme);
 
 	if (editor_options.value) {
 		input.value = editor_options.value;
 	}
 
+	const tokens_emitter = createEmitter<LinesPatch>();
+	const view = createLinesView(output, tokens_emitter.fire);
+	const isVirtual = () => editor_options.virtualRendering && editor_options.wordWrap === "off";
+	view.setVirtual(isVirtual());
+	const updateWrappingIndent = () => {
+		const { wordWrap, wrappingIndent, tabSize } = editor_options;
+		view.setWrappingIndent(wordWrap !== "off" && wrappingIndent === "same" ? tabSize : void 0);
+	};
+	updateWrappingIndent();
+	const newTokenizer = (onPatch: (patch: LinesPatch) => void) =>
+		worker ? worker.createTokenizer(onPatch) : createTokenizer(highlighter, onPatch);
+	const tokenizer = newTokenizer((patch) => view.patch(patch));
+
+	const decorations = new Map<string, readonly Decoration[]>();
+	const markers = new Map<string, readonly Marker[]>();
+	// the decorations of `deltaDecorations` by id
+	const tracked_decorations = new Map<string, Decoration>();
+	let last_decoration_id = 0;
+
+	const allMarkers = () => Array.from(markers.values()).flat();
+	const updateDecorations = () => {
+		const owner_decorations = Array.from(decorations.values()).flat();
+		view.setDecorations(
+			owner_decorations.concat(
+				Array.from(tracked_decorations.values()),
+				markerDecorations(allMarkers(), input.value),
+			),
+		);
+	};
+
+	// the caret line is only tracked when the line numbers depend on it
+	let numbered_caret_line: number | undefined;
+	const updateLineNumbers = (force: boolean) => {
+		const { lineNumbers } = editor_options;
+		const caret_line = lineNumbers === "relative" || lineNumbers === "interval" ? caretLine(input) : void 0;
+		if (!force && caret_line === numbered_caret_line) {
+			return;
+		}
+		numbered_caret_line = caret_line;
+		view.setLineNumbers(lineNumberLabel(editor_options, caret_line || 0));
+	};
+	updateLineNumbers(true);
+
+	// the line starts of the rendered lines, the lines are replaced on every patch
+	let starts_lines: readonly TokenizedLine[] | undefined;
+	let line_starts: number[] = [];
+	const lineStartsOf = (lines: readonly TokenizedLine[]) => {
+		if (lines !== starts_lines) {
+			starts_lines = lines;
+			line_starts = lineStarts(lines);
+		}
+		return line_starts;
+	};
+
+	// the scopes take about twice as long to tokenize, they are included once a plugin reads the tokens
+	let include_scopes = false;
 	const forceRender = (value = input.value) => {
-		render(output, highlighter, value, editor_options.language, editor_options.theme);
+		const { lines } = tokenizer.reset(value, {
+			lang: editor_options.language,
+			theme: editor_options.theme,
+			scopes: include_scopes,
+			maxLines: isVirtual() ? virtual_tokenize_lines : void 0,
+		});
+		view.render(lines);
+	};
+	const includeScopes = () => {
+		if (!include_scopes) {
+			include_scopes = true;
+			forceRender();
+		}
+	};
+
+	const content_emitter = createEmitter<ContentChangeEvent>();
+	const selection_emitter = createEmitter<SelectionChangeEvent>();
+	const options_emitter = createEmitter<OptionsChangeEvent>();
+	const focus_emitter = createEmitter<void>();
+	const blur_emitter = createEmitter<void>();
+	const indentation_emitter = createEmitter<IndentOptions>();
+
+	let last_value = input.value;
+	let last_selection = getSelection(input);
+	// the exact changes made by `applyEdits`, instead of a diff
+	let pending_changes: ContentChange[] | undefined;
+	let pending_merge = false;
+
+	const history = createHistory();
+	let is_undoing = false;
+	let is_redoing = false;
+
+	const checkSelection = () => {
+		const selection = getSelection(input);
+		if (
+			selection.selectionStart === last_selection.selectionStart &&
+			selection.selectionEnd === last_selection.selectionEnd &&
+			selection.selectionDirection === last_selection.selectionDirection
+		) {
+			return;
+		}
+		last_selection = selection;
+		updateLineNumbers(false);
+		selection_emitter.fire(selection);
+	};
+
+	// Plugins dispatch synthetic `input` and `selectionchange` events after editing, they end up here as well.
+	const onInput = (e: Event) => {
+		const value = input.value;
+		const change = diffText(last_value, value, input.selectionEnd);
+		const changes = change ? pending_changes || [change] : [];
+		const kind = pending_changes ? "other" : editKind(e);
+		const merge = pending_merge;
+		pending_changes = void 0;
+		pending_merge = false;
+
+		if (!is_undoing && !is_redoing) {
+			const selection_after = toSelectAction(getSelection(input));
+			if (merge) {
+				history.amend(last_value, changes, selection_after);
+			} else {
+				history.push(last_value, changes, toSelectAction(last_selection), selection_after, kind);
+			}
+		}
+		last_value = value;
+
+		const should_move_ranges = changes.length > 0 && (markers.size > 0 || tracked_decorations.size > 0);
+		if (should_move_ranges) {
+			for (const [owner, owner_markers] of markers) {
+				markers.set(owner, mapMarkers(owner_markers, changes));
+			}
+			const ids = Array.from(tracked_decorations.keys());
+			mapRanges(Array.from(tracked_decorations.values()), changes).forEach((decoration, index) => {
+				tracked_decorations.set(ids[index], decoration);
+			});
+		}
+
+		view.patch(tokenizer.update(value));
+
+		if (should_move_ranges) {
+			updateDecorations();
+		}
+
+		// lines may be added or removed before the caret
+		updateLineNumbers(false);
+
+		if (changes.length > 0) {
+			content_emitter.fire({ changes, value, isUndoing: is_undoing, isRedoing: is_redoing });
+		}
+		checkSelection();
 	};
+	const applyHistory = (entry: HistoryEntry | undefined, undo: boolean) => {
+		if (!entry) {
+			return;
+		}
+
+		const changes = undo ? entry.inverse : entry.changes;
+		const selection = undo ? entry.selectionBefore : entry.selectionAfter;
+
+		is_undoing = undo;
+		is_redoing = !undo;
+		pending_changes = changes.slice();
+		for (const change of changes) {
+			input.setRangeText(change.text, change.start, change.end);
+		}
+		input.dispatchEvent(new Event("input"));
+		input.dispatchEvent(new Event("change"));
+		is_undoing = false;
+		is_redoing = false;
 
-	const onInput = () => {
-		forceRender();
+		input.setSelectionRange(selection.start, selection.end, selection.direction);
+		input.dispatchEvent(new Event("selectionchange"));
 	};
+	const undo = () => {
+		if (!input.readOnly) {
+			applyHistory(history.undo(), true);
+		}
+	};
+	const redo = () => {
+		if (!input.readOnly) {
+			applyHistory(history.redo(), false);
+		}
+	};
+
+	const commands = new Map<string, CommandHandler>([
+		["undo", undo],
+		["redo", redo],
+	]);
+	let default_keybindings: readonly Keybinding[] = [
+		{ key: "mod+z", command: "undo" },
+		{ key: "mod+shift+z", command: "redo" },
+		{ key: "ctrl+y", mac: "", command: "redo" },
+	];
+	const context = new Map<string, unknown>();
+
+	// resolved again when the keybindings of the plugins or of the user change
+	let resolved: { user: readonly Keybinding[]; keybindings: readonly Keybinding[] } | undefined;
+	const resolvedKeybindings = () => {
+		if (resolved?.user !== editor_options.keybindings) {
+			const user = editor_options.keybindings;
+			resolved = { user, keybindings: resolveKeybindings(default_keybindings, user) };
+		}
+		return resolved.keybindings;
+	};
+
+	const onKeydown = (e: KeyboardEvent) => {
+		if (e.defaultPrevented || e.isComposing) {
+			return;
+		}
+
+		const when_context = {
+			...Object.fromEntries(context),
+			editorHasSelection: input.selectionStart !== input.selectionEnd,
+			editorReadonly: editor_options.readOnly,
+			editorLangId: editor_options.language,
+			isMac: isMacintosh,
+		};
+		for (const keybinding of resolvedKeybindings()) {
+			if (!matchesKey(e, keybinding.key) || !evaluateWhen(keybinding.when, when_context)) {
+				continue;
+			}
+			if (editor.executeCommand(keybinding.command, keybinding.args)) {
+				e.preventDefault();
+				return;
+			}
+		}
+	};
+	// undo and redo from the context menu
+	const onBeforeInput = (e: InputEvent) => {
+		switch (e.inputType) {
+			case "historyUndo": {
+				e.preventDefault();
+				undo();
+				break;
+			}
+			case "historyRedo": {
+				e.preventDefault();
+				redo();
+				break;
+			}
+		}
+	};
+	const onFocus = () => {
+		focus_emitter.fire();
+	};
+	const onBlur = () => {
+		blur_emitter.fire();
+	};
+
 	input.addEventListener("input", onInput);
+	// capture to run the keybindings before the keydown listeners of the plugins
+	input.addEventListener("keydown", onKeydown, { capture: true });
+	input.addEventListener("beforeinput", onBeforeInput);
+	input.addEventListener("select", checkSelection);
+	input.addEventListener("selectionchange", checkSelection);
+	doc.addEventListener("selectionchange", checkSelection);
+	input.addEventListener("focus", onFocus);
+	input.addEventListener("blur", onBlur);
 
 	forceRender();
 
 	const cleanup = [
 		() => {
 			input.removeEventListener("input", onInput);
+			input.removeEventListener("keydown", onKeydown, { capture: true });
+			input.removeEventListener("beforeinput", onBeforeInput);
+			input.removeEventListener("select", checkSelection);
+			input.removeEventListener("selectionchange", checkSelection);
+			doc.removeEventListener("selectionchange", checkSelection);
+			input.removeEventListener("focus", onFocus);
+			input.removeEventListener("blur", onBlur);
+			tokenizer.dispose();
+			view.dispose();
 		},
+		content_emitter.dispose,
+		selection_emitter.dispose,
+		options_emitter.dispose,
+		focus_emitter.dispose,
+		blur_emitter.dispose,
+		indentation_emitter.dispose,
+		tokens_emitter.dispose,
 		hookScroll(input, output),
+		hookMarkerHover(domElement, input, output, allMarkers),
 		injectStyle(doc),
+		() => removeThemeStyle(),
 	];
 
+	const detectIndentation = () => {
+		const guessed = guessIndentation(input.value);
+		editor.updateOptions(guessed);
+		indentation_emitter.fire({ tabSize: editor_options.tabSize, insertSpaces: editor_options.insertSpaces });
+	};
+
 	const editor: ShikiCode = {
 		input,
 		output,
 		container: domElement,
 
+		get tokenizedLines() {
+			return view.lines;
+		},
+		getTokenAt(offset) {
+			includeScopes();
+			const lines = view.lines;
+			const starts = lineStartsOf(lines);
+			const index = findLine(starts, offset);
+			const line = lines[index];
+			if (offset < 0 || !line) {
+				return void 0;
+			}
+			// the line is being highlighted again in a worker
+			const line_end = starts[index] + line.text.length;
+			if (input.value.slice(starts[index], line_end) !== line.text || (input.value[line_end] ?? "\n") !== "\n") {
+				return void 0;
+			}
+			return lineTokens(line, starts[index]).find(({ end }) => offset < end);
+		},
+		getLineTokens(line) {
+			includeScopes();
+			const lines = view.lines;
+			return lines[line] ? lineTokens(lines[line], lineStartsOf(lines)[line]) : [];
+		},
+
 		get value() {
 			return input.value;
 		},
 		set value(code) {
+			const old_value = last_value;
+			const selection_before = toSelectAction(last_selection);
 			input.value = code;
+			last_value = code;
+
+			if (markers.size > 0 || tracked_decorations.size > 0) {
+				markers.clear();
+				tracked_decorations.clear();
+				updateDecorations();
+			}
 			forceRender(code);
+
+			if (editor_options.detectIndentation) {
+				detectIndentation();
+			}
+
+			if (code !== old_value) {
+				const changes = [{ start: 0, end: old_value.length, text: code }];
+				history.push(old_value, changes, selection_before, toSelectAction(getSelection(input)), "other");
+				content_emitter.fire({ changes, value: code, isUndoing: false, isRedoing: false });
+			}
+			checkSelection();
 		},
 
 		get highlighter() {
 			return highlighter;
 		},
+		get worker() {
+			return worker;
+		},
+		createTokenizer: newTokenizer,
+		get options() {
+			return editor_options;
+		},
 
 		forceRender,
+		applyEdits(edits, options = {}) {
+			if (input.readOnly && edits.length > 0) {
+				return;
+			}
+
+			const patch = composeEdits(input.value, edits);
+			if (patch) {
+				let delta = 0;
+				pending_changes = sortEdits(edits).map(({ value, start, end }) => {
+					const change = { start: start + delta, end: end + delta, text: value };
+					delta += value.length - (end - start);
+					return change;
+				});
+				pending_merge = options.mergeUndo === true;
+
+				const { start, end } = selectionAfterEdits(edits)!;
+				input.setRangeText(patch.value, patch.start, patch.end);
+				input.setSelectionRange(start, end);
+				input.dispatchEvent(new Event("input"));
+				input.dispatchEvent(new Event("change"));
+			}
+
+			const { selection } = options;
+			if (selection) {
+				input.setSelectionRange(selection.start, selection.end, selection.direction);
+				input.dispatchEvent(new Event("selectionchange"));
+			}
+		},
+		undo,
+		redo,
+		get canUndo() {
+			return history.canUndo;
+		},
+		get canRedo() {
+			return history.canRedo;
+		},
+		pushUndoStop() {
+			history.pushUndoStop();
+		},
+
+		setDecorations(owner, owner_decorations) {
+			if (owner_decorations.length > 0) {
+				decorations.set(owner, owner_decorations);
+			} else {
+				decorations.delete(owner);
+			}
+			updateDecorations();
+		},
+		deltaDecorations(oldIds, newDecorations) {
+			for (const id of oldIds) {
+				tracked_decorations.delete(id);
+			}
+			const ids = newDecorations.map((decoration) => {
+				const id = `decoration-${++last_decoration_id}`;
+				tracked_decorations.set(id, decoration);
+				return id;
+			});
+			updateDecorations();
+			return ids;
+		},
+		getDecoration(id) {
+			return tracked_decorations.get(id);
+		},
+
+		registerCommand(id, handler) {
+			const previous = commands.get(id);
+			commands.set(id, handler);
+
+			return () => {
+				if (commands.get(id) !== handler) {
+					return;
+				}
+				if (previous) {
+					commands.set(id, previous);
+				} else {
+					commands.delete(id);
+				}
+			};
+		},
+		executeCommand(id, args) {
+			const handler = commands.get(id);
+			return handler !== void 0 && handler(args) !== false;
+		},
+		addKeybindings(keybindings) {
+			default_keybindings = default_keybindings.concat(keybindings);
+			resolved = void 0;
+
+			return () => {
+				default_keybindings = default_keybindings.filter((keybinding) => !keybindings.includes(keybinding));
+				resolved = void 0;
+			};
+		},
+		setContext(key, value) {
+			context.set(key, value);
+		},
+
+		setMarkers(owner, owner_markers) {
+			if (owner_markers.length > 0) {
+				markers.set(owner, owner_markers);
+			} else {
+				markers.delete(owner);
+			}
+			updateDecorations();
+		},
+		getMarkers(owner) {
+			return owner === void 0 ? allMarkers() : (markers.get(owner) || []).slice();
+		},
+
 		updateOptions(newOptions) {
 			if (shouldUpdateIO(editor_options, newOptions)) {
 				updateIO(input, output, newOptions);
 			}
 
 			if (shouldUpdateContainer(editor_options, newOptions)) {
-				updateContainer(domElement, highlighter, newOptions.theme!);
+				removeThemeStyle();
+				removeThemeStyle = updateContainer(domElement, highlighter, newOptions.theme!);
 			}
 
 			const should_rerender = shouldRerender(editor_options, newOptions);
+			const changed = changedOptions(editor_options, newOptions);
 
 			Object.assign(editor_options, newOptions);
 
 			if (should_rerender) {
 				forceRender();
 			}
+
+			if ("virtualRendering" in changed || "wordWrap" in changed) {
+				view.setVirtual(isVirtual());
+				if (!should_rerender) {
+					forceRender();
+				}
+			}
+
+			if ("wrappingIndent" in changed || "wordWrap" in changed || "tabSize" in changed) {
+				updateWrappingIndent();
+			}
+
+			if ("lineNumbers" in changed || "lineNumbersStart" in changed || "lineNumbersInterval" in changed) {
+				updateLineNumbers(true);
+			}
+
+			if (Object.keys(changed).length > 0) {
+				options_emitter.fire({ options: editor_options, changed });
+			}
+
+			if (changed.detectIndentation) {
+				detectIndentation();
+			}
 		},
 
 		addPlugin(plugin) {
 			cleanup.push(plugin(this, editor_options));
 		},
+
+		onDidChangeContent: content_emitter.event,
+		onDidChangeSelection: selection_emitter.event,
+		onDidChangeOptions: options_emitter.event,
+		onDidFocus: focus_emitter.event,
+		onDidBlur: blur_emitter.event,
+		onDidDetectIndentation: indentation_emitter.event,
+		onDidChangeTokens: tokens_emitter.event,
+
 		dispose() {
 			cleanup.forEach((fn) => fn());
 			input.remove();
@@ -206,15 +967,67 @@ function initContainer(container: HTMLElement) {
 }
 
 function shouldUpdateContainer(config: EditorOptions, newOptions: UpdateOptions) {
-	return newOptions.theme !== void 0 && newOptions.theme !== config.theme;
+	return newOptions.theme !== void 0 && !equalsTheme(newOptions.theme, config.theme);
+}
+
+/**
+ * Set the colors of the theme on the container.
+ * Returns a function removing the style switching between variants.
+ */
+function updateContainer(container: HTMLElement, highlighter: Highlighter, theme: EditorOptions["theme"]) {
+	const { style } = container;
+	for (const name of Array.from(style)) {
+		if (name.startsWith("--fg-") || name.startsWith("--bg-")) {
+			style.removeProperty(name);
+		}
+	}
+
+	if (typeof theme === "string") {
+		const { fg, bg } = highlighter.getTheme(theme);
+		style.setProperty("--fg", fg);
+		style.setProperty("--bg", bg);
+		delete container.dataset.shikicodeThemes;
+		return noop;
+	}
+
+	// `--fg` and `--bg` are picked from the variants by the theme style
+	style.removeProperty("--fg");
+	style.removeProperty("--bg");
+
+	const variants = themeVariants(theme);
+	for (const variant of variants) {
+		const { fg, bg } = highlighter.getTheme(theme[variant]);
+		style.setProperty(`--fg-${variant}`, fg);
+		style.setProperty(`--bg-${variant}`, bg);
+	}
+	container.dataset.shikicodeThemes = variants.join(" ");
+
+	return injectStyle(container.ownerDocument, themeStyle(variants));
 }
 
-function updateContainer(container: HTMLElement, highlighter: Highlighter, theme_name: string) {
-	const theme = highlighter.getTheme(theme_name);
-	container.style.setProperty("--fg", theme.fg);
-	container.style.setProperty("--bg", theme.bg);
+/**
+ * The variant names, the default variant comes first.
+ */
+function themeVariants(theme: ThemeVariants): string[] {
+	const variants = Object.keys(theme);
+	const default_variant = variants.includes("light") ? "light" : variants[0];
+	return [default_variant, ...variants.filter((variant) => variant !== default_variant)];
 }
 
+function equalsTheme(a: EditorOptions["theme"], b: EditorOptions["theme"]): boolean {
+	if (typeof a === "string" || typeof b === "string") {
+		return a === b;
+	}
+
+	const variants = Object.keys(a);
+	return (
+		variants.length === Object.keys(b).length &&
+		variants.every((variant, i) => Object.keys(b)[i] === variant && a[variant] === b[variant])
+	);
+}
+
+function noop() {}
+
 function initIO(input: HTMLTextAreaElement, output: HTMLElement) {
 	input.setAttribute("autocapitalize", "off");
 	input.setAttribute("autocomplete", "off");
@@ -230,22 +1043,18 @@ function shouldUpdateIO(config: EditorOptions, newOptions: UpdateOptions) {
 	return (
 		(newOptions.lineNumbers !== void 0 && newOptions.lineNumbers !== config.lineNumbers) ||
 		(newOptions.tabSize !== void 0 && newOptions.tabSize !== config.tabSize) ||
+		(newOptions.wordWrap !== void 0 && newOptions.wordWrap !== config.wordWrap) ||
+		(newOptions.wordWrapColumn !== void 0 && newOptions.wordWrapColumn !== config.wordWrapColumn) ||
+		(newOptions.wrappingIndent !== void 0 && newOptions.wrappingIndent !== config.wrappingIndent) ||
 		(newOptions.readOnly !== void 0 && newOptions.readOnly !== config.readOnly)
 	);
 }
 
 function updateIO(input: HTMLTextAreaElement, output: HTMLElement, options: UpdateOptions) {
-	switch (options.lineNumbers) {
-		case "on": {
-			input.classList.add("line-numbers");
-			output.classList.add("line-numbers");
-			break;
-		}
-		case "off": {
-			input.classList.remove("line-numbers");
-			output.classList.remove("line-numbers");
-			break;
-		}
+	if (options.lineNumbers !== void 0) {
+		const show = options.lineNumbers !== "off";
+		input.classList.toggle("line-numbers", show);
+		output.classList.toggle("line-numbers", show);
 	}
 
 	if (options.tabSize !== void 0) {
@@ -253,22 +1062,114 @@ function updateIO(input: HTMLTextAreaElement, output: HTMLElement, options: Upda
 		output.style.setProperty("--tab-size", options.tabSize.toString());
 	}
 
+	if (options.wordWrap !== void 0) {
+		const wrap = options.wordWrap !== "off";
+		const bounded = options.wordWrap === "bounded";
+		input.classList.toggle("word-wrap", wrap);
+		output.classList.toggle("word-wrap", wrap);
+		input.classList.toggle("word-wrap-bounded", bounded);
+		output.classList.toggle("word-wrap-bounded", bounded);
+	}
+
+	if (options.wrappingIndent !== void 0) {
+		output.classList.toggle("wrapping-indent", options.wrappingIndent === "same");
+	}
+
+	if (options.wordWrapColumn !== void 0) {
+		input.style.setProperty("--word-wrap-column", options.wordWrapColumn.toString());
+		output.style.setProperty("--word-wrap-column", options.wordWrapColumn.toString());
+	}
+
 	if (options.readOnly !== void 0) {
 		input.readOnly = options.readOnly;
 	}
 }
 
-function render(output: HTMLElement, highlighter: Highlighter, value: string, lang: string, theme: string) {
-	const { codeToHtml } = highlighter;
-	output.innerHTML = codeToHtml(value, {
-		lang,
-		theme,
-	});
+/**
+ * The label of each line, or undefined when the CSS counter is enough.
+ */
+function lineNumberLabel(
+	{ lineNumbers, lineNumbersStart, lineNumbersInterval }: EditorOptions,
+	caret_line: number,
+): ((index: number) => string) | undefined {
+	const number = (index: number) => (index + lineNumbersStart).toString();
+
+	switch (lineNumbers) {
+		case "off": {
+			return void 0;
+		}
+		case "on": {
+			return lineNumbersStart === 1 ? void 0 : number;
+		}
+		case "relative": {
+			return (index) => (index === caret_line ? number(index) : Math.abs(index - caret_line).toString());
+		}
+		case "interval": {
+			return (index) =>
+				index === caret_line || (index + lineNumbersStart) % lineNumbersInterval === 0 ? number(index) : "";
+		}
+		default: {
+			return (index) => lineNumbers(index + lineNumbersStart);
+		}
+	}
+}
+
+function caretLine(input: HTMLTextAreaElement): number {
+	const { value, selectionStart, selectionEnd, selectionDirection } = input;
+	const caret = selectionDirection === "backward" ? selectionStart : selectionEnd;
+
+	let line = 0;
+	for (let i = value.indexOf("\n"); i !== -1 && i < caret; i = value.indexOf("\n", i + 1)) {
+		line++;
+	}
+	return line;
+}
+
+function getSelection(input: HTMLTextAreaElement): SelectionChangeEvent {
+	return {
+		selectionStart: input.selectionStart,
+		selectionEnd: input.selectionEnd,
+		selectionDirection: input.selectionDirection,
+	};
+}
+
+function toSelectAction(selection: SelectionChangeEvent): SelectAction {
+	return {
+		start: selection.selectionStart,
+		end: selection.selectionEnd,
+		direction: selection.selectionDirection,
+	};
+}
+
+function editKind(e: Event): EditKind {
+	switch ((e as InputEvent).inputType) {
+		case "insertText":
+			return "typing";
+		case "deleteContentBackward":
+		case "deleteContentForward":
+			return "deleting";
+		default:
+			return "other";
+	}
+}
+
+function changedOptions(options: EditorOptions, newOptions: UpdateOptions): UpdateOptions {
+	const changed: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(newOptions)) {
+		if (value !== void 0 && value !== options[key as keyof EditorOptions]) {
+			changed[key] = value;
+		}
+	}
+	// an equal theme variants object is not a change
+	if (newOptions.theme !== void 0 && equalsTheme(newOptions.theme, options.theme)) {
+		delete changed.theme;
+	}
+	return changed;
 }
 
 function shouldRerender(options: EditorOptions, newOptions: UpdateOptions) {
 	return (
-		(newOptions.theme !== void 0 && newOptions.theme !== options.theme) ||
+		(newOptions.theme !== void 0 && !equalsTheme(newOptions.theme, options.theme)) ||
 		(newOptions.language !== void 0 && newOptions.language !== options.language)
 	);
 }
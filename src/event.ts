@@ -0,0 +1,34 @@
+import type { IDisposable } from "./plugins/index.js";
+
+/**
+ * Subscribe to an editor event, call the returned function to unsubscribe.
+ */
+export type EditorEvent<T> = (listener: (e: T) => void) => IDisposable;
+
+export interface Emitter<T> {
+	readonly event: EditorEvent<T>;
+	fire(e: T): void;
+	dispose(): void;
+}
+
+export function createEmitter<T>(): Emitter<T> {
+	let listeners: ((e: T) => void)[] = [];
+
+	return {
+		event(listener) {
+			listeners.push(listener);
+			return () => {
+				listeners = listeners.filter((l) => l !== listener);
+			};
+		},
+		fire(e) {
+			// a listener may unsubscribe while the event is dispatched
+			for (const listener of listeners.slice()) {
+				listener(e);
+			}
+		},
+		dispose() {
+			listeners = [];
+		},
+	};
+}
@@ -0,0 +1,174 @@
+import { applyChange, mapOffset, type ContentChange } from "./change.js";
+import type { SelectAction } from "./plugins/common.js";
+
+/**
+ * How an edit was made, consecutive edits of the same kind may be merged into one undo step.
+ */
+export type EditKind = "typing" | "deleting" | "other";
+
+export interface HistoryEntry {
+	/**
+	 * The changes to redo, in the order they were applied.
+	 */
+	readonly changes: readonly ContentChange[];
+	/**
+	 * The changes to undo, in the order they should be applied.
+	 */
+	readonly inverse: readonly ContentChange[];
+	readonly selectionBefore: SelectAction;
+	readonly selectionAfter: SelectAction;
+}
+
+export interface History {
+	readonly canUndo: boolean;
+	readonly canRedo: boolean;
+	/**
+	 * Record the changes applied to `value`.
+	 */
+	push(
+		value: string,
+		changes: readonly ContentChange[],
+		selectionBefore: SelectAction,
+		selectionAfter: SelectAction,
+		kind: EditKind,
+	): void;
+	/**
+	 * Add the changes applied to `value` to the last undo step, e.g. the changes made in response to it.
+	 * The edits merged into that step, such as typing, can still go on in it.
+	 */
+	amend(value: string, changes: readonly ContentChange[], selectionAfter: SelectAction): void;
+	/**
+	 * The next edit starts a new undo step.
+	 */
+	pushUndoStop(): void;
+	undo(): HistoryEntry | undefined;
+	redo(): HistoryEntry | undefined;
+	clear(): void;
+}
+
+export function createHistory(): History {
+	let undo_stack: HistoryEntry[] = [];
+	let redo_stack: HistoryEntry[] = [];
+
+	// the kind of the last entry, `undefined` after an undo stop
+	let last_kind: EditKind | undefined;
+	// the last change pushed, the next edit of the same kind continues from it
+	let last_change: ContentChange | undefined;
+
+	return {
+		get canUndo() {
+			return undo_stack.length > 0;
+		},
+		get canRedo() {
+			return redo_stack.length > 0;
+		},
+
+		push(value, changes, selectionBefore, selectionAfter, kind) {
+			if (changes.length === 0) {
+				return;
+			}
+
+			redo_stack = [];
+
+			const inverse = invertChanges(value, changes);
+			const last = undo_stack[undo_stack.length - 1];
+
+			if (last && kind !== "other" && kind === last_kind && isContinuation(last_change!, changes, kind)) {
+				undo_stack[undo_stack.length - 1] = {
+					changes: last.changes.concat(changes),
+					inverse: inverse.concat(last.inverse),
+					selectionBefore: last.selectionBefore,
+					selectionAfter,
+				};
+			} else {
+				undo_stack.push({ changes, inverse, selectionBefore, selectionAfter });
+			}
+
+			// a new line ends the current group of typing
+			last_kind = kind === "other" || changes.some((change) => change.text.includes("\n")) ? void 0 : kind;
+			last_change = changes[changes.length - 1];
+		},
+
+		amend(value, changes, selectionAfter) {
+			const last = undo_stack[undo_stack.length - 1];
+			if (!last) {
+				this.push(value, changes, selectionAfter, selectionAfter, "other");
+				return;
+			}
+			if (changes.length === 0) {
+				return;
+			}
+
+			redo_stack = [];
+			undo_stack[undo_stack.length - 1] = {
+				changes: last.changes.concat(changes),
+				inverse: invertChanges(value, changes).concat(last.inverse),
+				selectionBefore: last.selectionBefore,
+				selectionAfter,
+			};
+			if (last_change) {
+				const start = changes.reduce((offset, change) => mapOffset(offset, change), last_change.start);
+				last_change = { ...last_change, start };
+			}
+		},
+
+		pushUndoStop() {
+			last_kind = void 0;
+		},
+
+		undo() {
+			const entry = undo_stack.pop();
+			if (entry) {
+				redo_stack.push(entry);
+			}
+			last_kind = void 0;
+			return entry;
+		},
+
+		redo() {
+			const entry = redo_stack.pop();
+			if (entry) {
+				undo_stack.push(entry);
+			}
+			last_kind = void 0;
+			return entry;
+		},
+
+		clear() {
+			undo_stack = [];
+			redo_stack = [];
+			last_kind = void 0;
+		},
+	};
+}
+
+function isContinuation(previous: ContentChange, changes: readonly ContentChange[], kind: EditKind): boolean {
+	if (changes.length !== 1) {
+		return false;
+	}
+
+	const [change] = changes;
+
+	if (kind === "typing") {
+		return change.start === change.end && change.start === previous.start + previous.text.length;
+	}
+
+	// backspace deletes before the previous deletion, delete removes at the same offset
+	return change.text === "" && (change.end === previous.start || change.start === previous.start);
+}
+
+/**
+ * Compute the changes reverting `changes` applied to `value`.
+ */
+export function invertChanges(value: string, changes: readonly ContentChange[]): ContentChange[] {
+	const inverse: ContentChange[] = [];
+	for (const change of changes) {
+		inverse.push({
+			start: change.start,
+			end: change.start + change.text.length,
+			text: value.slice(change.start, change.end),
+		});
+		value = applyChange(value, change);
+	}
+	return inverse.reverse();
+}
@@ -0,0 +1,64 @@
+import type { IndentOptions } from "./core.js";
+
+// the indent widths worth guessing, in order of preference when they are as frequent
+const indent_widths = [4, 2, 8, 3, 6, 5, 7];
+
+/**
+ * Guess the indentation from the leading whitespace of the lines.
+ * `insertSpaces` is guessed from the lines indented with spaces or with tabs,
+ * `tabSize` from the most frequent change of indentation between consecutive lines indented with spaces.
+ * The options which cannot be guessed are left out, e.g. the tab size of a file indented with tabs.
+ */
+export function guessIndentation(value: string): Partial<IndentOptions> {
+	let lines_with_tabs = 0;
+	let lines_with_spaces = 0;
+	const width_count = new Map<number, number>();
+
+	let previous_width = 0;
+	for (const line of value.split("\n")) {
+		if (line.trim() === "") {
+			continue;
+		}
+
+		if (line[0] === "\t") {
+			lines_with_tabs++;
+			previous_width = 0;
+			continue;
+		}
+
+		let width = 0;
+		while (line[width] === " ") {
+			width++;
+		}
+		// a tab after the spaces makes the width unknown
+		if (line[width] === "\t") {
+			previous_width = 0;
+			continue;
+		}
+
+		if (width > 0) {
+			lines_with_spaces++;
+		}
+		const delta = Math.abs(width - previous_width);
+		if (indent_widths.includes(delta)) {
+			width_count.set(delta, (width_count.get(delta) || 0) + 1);
+		}
+		previous_width = width;
+	}
+
+	if (lines_with_tabs === 0 && lines_with_spaces === 0) {
+		return {};
+	}
+	if (lines_with_tabs > lines_with_spaces) {
+		return { insertSpaces: false };
+	}
+
+	let tab_size: number | undefined;
+	for (const width of indent_widths) {
+		if ((width_count.get(width) || 0) > (tab_size === void 0 ? 0 : width_count.get(tab_size)!)) {
+			tab_size = width;
+		}
+	}
+
+	return tab_size === void 0 ? { insertSpaces: true } : { insertSpaces: true, tabSize: tab_size };
+}
@@ -1 +1,7 @@
 export * from "./core.js";
+export type { ContentChange } from "./change.js";
+export type { EditorEvent } from "./event.js";
+export type { CommandHandler, Keybinding } from "./keybindings.js";
+export type { Marker, MarkerSeverity } from "./markers.js";
+export type { Decoration } from "./render.js";
+export type { LinesPatch, TokenInfo, TokenizedLine } from "./tokenize.js";
@@ -0,0 +1,230 @@
+import { isMacintosh } from "./plugins/common.js";
+
+/**
+ * A key bound to a command, in the style of VS Code `keybindings.json`.
+ */
+export interface Keybinding {
+	/**
+	 * The key and its modifiers joined by `+`, e.g. `ctrl+shift+[`, `alt+f3` or `escape`.
+	 * The modifiers are `ctrl`, `shift`, `alt`, `meta` (or `cmd`),
+	 * and `mod` which is `cmd` on macOS and `ctrl` elsewhere.
+	 */
+	readonly key: string;
+	/**
+	 * The key on macOS, `key` when omitted, an empty string leaves the command unbound on macOS.
+	 */
+	readonly mac?: string;
+	/**
+	 * The command to run, or `-command` in the `keybindings` option to remove the bindings of `command` to `key`.
+	 */
+	readonly command: string;
+	/**
+	 * The condition on the context keys for the binding to apply, e.g. `editorHasSelection && editorLangId == python`.
+	 * It supports `!`, `&&`, `||`, `==`, `!=` and parentheses.
+	 */
+	readonly when?: string;
+	/**
+	 * Passed to the handler of the command.
+	 */
+	readonly args?: unknown;
+}
+
+/**
+ * Runs a command, returning `false` when the command does not apply,
+ * the next keybinding of the key is tried then, and finally the default action of the key.
+ */
+export type CommandHandler = (args?: unknown) => boolean | void;
+
+export type KeyboardEventLike = Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "shiftKey" | "altKey" | "metaKey">;
+
+interface KeyChord {
+	readonly ctrl: boolean;
+	readonly shift: boolean;
+	readonly alt: boolean;
+	readonly meta: boolean;
+	readonly key: string;
+}
+
+const key_aliases: Record<string, string> = {
+	" ": "space",
+	arrowup: "up",
+	arrowdown: "down",
+	arrowleft: "left",
+	arrowright: "right",
+	esc: "escape",
+	del: "delete",
+};
+
+const code_keys: Record<string, string> = {
+	Backquote: "`",
+	Backslash: "\\",
+	BracketLeft: "[",
+	BracketRight: "]",
+	Comma: ",",
+	Equal: "=",
+	Minus: "-",
+	Period: ".",
+	Quote: "'",
+	Semicolon: ";",
+	Slash: "/",
+	Space: "space",
+};
+
+function parseKey(key: string, mac: boolean): KeyChord {
+	const parts = key.toLowerCase().split("+");
+	// `ctrl++` binds the `+` key
+	let name = parts.pop()!;
+	if (name === "" && parts.at(-1) === "") {
+		parts.pop();
+		name = "+";
+	}
+	const modifiers = new Set(parts.map((part) => (part === "mod" ? (mac ? "meta" : "ctrl") : part)));
+
+	return {
+		ctrl: modifiers.has("ctrl"),
+		shift: modifiers.has("shift"),
+		alt: modifiers.has("alt") || modifiers.has("option"),
+		meta: modifiers.has("meta") || modifiers.has("cmd") || modifiers.has("win"),
+		key: key_aliases[name] || name,
+	};
+}
+
+/**
+ * Whether the key of an event is `key` of a keybinding.
+ * The key is compared with the character typed, so the keys follow the keyboard layout.
+ * The physical key is compared only when `Shift` or `Alt` changed the character into one which is not a letter,
+ * so `ctrl+shift+[` matches although `Shift` types `{`, as `alt+f` does on macOS although `Alt` types `ƒ`.
+ */
+export function matchesKey(e: KeyboardEventLike, key: string, mac: boolean = isMacintosh): boolean {
+	const chord = parseKey(key, mac);
+	if (chord.ctrl !== e.ctrlKey || chord.shift !== e.shiftKey || chord.alt !== e.altKey || chord.meta !== e.metaKey) {
+		return false;
+	}
+
+	const name = e.key.toLowerCase();
+	if ((key_aliases[name] || name) === chord.key) {
+		return true;
+	}
+	if ((!e.shiftKey && !e.altKey) || /^[a-z]$/.test(name)) {
+		return false;
+	}
+	const code = /^Key([A-Z])$|^Digit(\d)$/.exec(e.code);
+	const code_key = code ? (code[1] || code[2]).toLowerCase() : code_keys[e.code];
+	return code_key === chord.key;
+}
+
+type WhenToken = "(" | ")" | "!" | "&&" | "||" | "==" | "!=" | { readonly word: string };
+
+function tokenizeWhen(when: string): WhenToken[] {
+	const tokens: WhenToken[] = [];
+	for (const [token] of when.matchAll(/&&|\|\||==|!=|[()!]|[^\s()!&|=]+/g)) {
+		tokens.push(/^(?:&&|\|\||==|!=|[()!])$/.test(token) ? (token as WhenToken) : { word: token });
+	}
+	return tokens;
+}
+
+/**
+ * Evaluate a `when` condition against the context keys.
+ * A key alone is true when its value is truthy, `key == value` compares the value of the key as a string.
+ * An empty condition is true.
+ */
+export function evaluateWhen(when: string | undefined, context: Readonly<Record<string, unknown>>): boolean {
+	const tokens = tokenizeWhen(when || "");
+	if (tokens.length === 0) {
+		return true;
+	}
+	let pos = 0;
+
+	const word = () => {
+		const token = tokens[pos++];
+		return typeof token === "object" ? token.word : "";
+	};
+
+	const primary = (): boolean => {
+		const token = tokens[pos];
+		if (token === "!") {
+			pos++;
+			return !primary();
+		}
+		if (token === "(") {
+			pos++;
+			const value = or();
+			pos++;
+			return value;
+		}
+
+		const key = word();
+		const operator = tokens[pos];
+		if (operator === "==" || operator === "!=") {
+			pos++;
+			const equal = String(context[key]) === word();
+			return operator === "==" ? equal : !equal;
+		}
+		if (key === "true" || key === "false") {
+			return key === "true";
+		}
+		return Boolean(context[key]);
+	};
+
+	const and = () => {
+		let value = primary();
+		while (tokens[pos] === "&&") {
+			pos++;
+			// both sides are parsed, the evaluation does not short-circuit
+			value = primary() && value;
+		}
+		return value;
+	};
+
+	const or = () => {
+		let value = and();
+		while (tokens[pos] === "||") {
+			pos++;
+			value = and() || value;
+		}
+		return value;
+	};
+
+	return or();
+}
+
+/**
+ * The keybindings in the order they are tried, with the key of the platform.
+ *
+ * The `user` keybindings come first, then the `defaults` with a `when` condition, then the other `defaults`,
+ * the keybindings added later come first within each group.
+ * A user keybinding to `-command` removes the defaults binding `command` to its key,
+ * or to any key when its key is empty, and only those with the same `when` condition when it has one.
+ */
+export function resolveKeybindings(
+	defaults: readonly Keybinding[],
+	user: readonly Keybinding[],
+	mac: boolean = isMacintosh,
+): Keybinding[] {
+	const keyOf = (keybinding: Keybinding) => (mac && keybinding.mac !== void 0 ? keybinding.mac : keybinding.key);
+	const sameKey = (a: string, b: string) => {
+		const x = parseKey(a, mac);
+		const y = parseKey(b, mac);
+		return x.key === y.key && x.ctrl === y.ctrl && x.shift === y.shift && x.alt === y.alt && x.meta === y.meta;
+	};
+
+	const removals = user.filter(({ command }) => command.startsWith("-"));
+	const isRemoved = (keybinding: Keybinding) =>
+		removals.some(
+			(removal) =>
+				removal.command.slice(1) === keybinding.command &&
+				(!keyOf(removal) || sameKey(keyOf(removal), keyOf(keybinding))) &&
+				(removal.when === void 0 || removal.when === keybinding.when),
+		);
+
+	const kept = defaults.filter((keybinding) => !isRemoved(keybinding)).reverse();
+	return user
+		.filter(({ command }) => !command.startsWith("-"))
+		.reverse()
+		.concat(
+			kept.filter(({ when }) => when),
+			kept.filter(({ when }) => !when),
+		)
+		.filter((keybinding) => keyOf(keybinding))
+		.map((keybinding) => ({ ...keybinding, key: keyOf(keybinding) }));
+}
@@ -0,0 +1,199 @@
+import { mapRanges, type ContentChange } from "./change.js";
+import type { IDisposable } from "./plugins/index.js";
+import { lineIndexOf, type Decoration } from "./render.js";
+import { findLine } from "./tokenize.js";
+
+export type MarkerSeverity = "error" | "warning" | "info" | "hint";
+
+/**
+ * A diagnostic such as a lint error, the offsets are relative to the value.
+ */
+export interface Marker {
+	readonly start: number;
+	readonly end: number;
+	readonly severity: MarkerSeverity;
+	readonly message: string;
+	/**
+	 * The tool which reported the marker, e.g. `eslint`.
+	 */
+	readonly source?: string;
+}
+
+const severity_order: readonly MarkerSeverity[] = ["hint", "info", "warning", "error"];
+
+/**
+ * Move the markers along with the changes, in the order they were applied.
+ */
+export function mapMarkers(markers: readonly Marker[], changes: readonly ContentChange[]): Marker[] {
+	return mapRanges(markers, changes);
+}
+
+/**
+ * Squiggles under the text of the markers, and the icon of the most severe marker in the gutter of each line.
+ */
+export function markerDecorations(markers: readonly Marker[], value: string): Decoration[] {
+	const decorations: Decoration[] = [];
+
+	// only the most severe marker of a line shows an icon
+	const sorted = markers
+		.slice()
+		.sort((a, b) => severity_order.indexOf(b.severity) - severity_order.indexOf(a.severity));
+	const lines_with_icon = new Set<number>();
+
+	const line_starts = [0];
+	for (let i = value.indexOf("\n"); i !== -1; i = value.indexOf("\n", i + 1)) {
+		line_starts.push(i + 1);
+	}
+
+	for (const marker of sorted) {
+		let { start, end } = marker;
+
+		// an empty range underlines the character next to it
+		if (start === end) {
+			if (end < value.length && value[end] !== "\n") {
+				end++;
+			} else if (start > 0 && value[start - 1] !== "\n") {
+				start--;
+			}
+		}
+
+		decorations.push({ start, end, className: `marker marker-${marker.severity}` });
+
+		const line = findLine(line_starts, marker.start);
+		if (marker.severity !== "hint" && !lines_with_icon.has(line)) {
+			lines_with_icon.add(line);
+			decorations.push({ start: marker.start, end: marker.start, lineClassName: `marker-line-${marker.severity}` });
+		}
+	}
+
+	return decorations;
+}
+
+/**
+ * Show the messages of the markers under the pointer, over the text or in the gutter.
+ */
+export function hookMarkerHover(
+	container: HTMLElement,
+	input: HTMLTextAreaElement,
+	output: HTMLElement,
+	getMarkers: () => readonly Marker[],
+): IDisposable {
+	const doc = container.ownerDocument;
+
+	const tooltip = doc.createElement("div");
+	tooltip.className = "shikicode marker-tooltip";
+	tooltip.hidden = true;
+	container.append(tooltip);
+
+	const hide = () => {
+		tooltip.hidden = true;
+	};
+
+	const show = (markers: readonly Marker[], x: number, line: Element) => {
+		tooltip.replaceChildren(
+			...markers.map((marker) => {
+				const message = doc.createElement("div");
+				message.className = `marker-message marker-${marker.severity}`;
+				message.textContent = marker.message;
+				if (marker.source) {
+					const source = doc.createElement("span");
+					source.className = "marker-source";
+					source.textContent = marker.source;
+					message.append(" ", source);
+				}
+				return message;
+			}),
+		);
+
+		const container_rect = container.getBoundingClientRect();
+		tooltip.style.left = `${x - container_rect.left}px`;
+		tooltip.style.top = `${line.getBoundingClientRect().bottom - container_rect.top}px`;
+		tooltip.hidden = false;
+	};
+
+	const onMouseMove = (e: MouseEvent) => {
+		const markers = getMarkers();
+		if (markers.length === 0) {
+			hide();
+			return;
+		}
+
+		const contains = (rect: DOMRect) =>
+			e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom;
+
+		// the squiggles under the pointer
+		for (const span of output.querySelectorAll(".marker")) {
+			if (!contains(span.getBoundingClientRect())) {
+				continue;
+			}
+
+			const start = spanOffset(input.value, span);
+			const end = start + span.textContent!.length;
+			const hovered = markers.filter((marker) => marker.start <= end && start <= marker.end);
+			if (hovered.length > 0) {
+				show(hovered, e.clientX, span);
+				return;
+			}
+		}
+
+		// the icons in the gutter
+		const gutter_right = input.getBoundingClientRect().left + Number.parseFloat(getComputedStyle(input).paddingLeft);
+		if (e.clientX < gutter_right) {
+			for (const line of output.querySelectorAll("[class*='marker-line-']")) {
+				const rect = line.getBoundingClientRect();
+				if (e.clientY < rect.top || e.clientY > rect.bottom) {
+					continue;
+				}
+
+				const [start, end] = lineRange(input.value, line);
+				const hovered = markers.filter((marker) => marker.start >= start && marker.start <= end);
+				if (hovered.length > 0) {
+					show(hovered, e.clientX, line);
+					return;
+				}
+			}
+		}
+
+		hide();
+	};
+
+	input.addEventListener("mousemove", onMouseMove);
+	input.addEventListener("mouseleave", hide);
+	input.addEventListener("keydown", hide);
+	input.addEventListener("scroll", hide);
+
+	return () => {
+		input.removeEventListener("mousemove", onMouseMove);
+		input.removeEventListener("mouseleave", hide);
+		input.removeEventListener("keydown", hide);
+		input.removeEventListener("scroll", hide);
+		tooltip.remove();
+	};
+}
+
+// the offsets of the first and the last character of a `.line` element
+function lineRange(value: string, line: Element): [start: number, end: number] {
+	const index = lineIndexOf(line);
+
+	let start = 0;
+	for (let i = 0; i < index; i++) {
+		start = value.indexOf("\n", start) + 1;
+	}
+	const end = value.indexOf("\n", start);
+	return [start, end === -1 ? value.length : end];
+}
+
+// the offset of the first character of a span in a `.line` element
+function spanOffset(value: string, span: Element): number {
+	const line = span.parentElement!;
+
+	let column = 0;
+	for (const child of line.children) {
+		if (child === span) {
+			break;
+		}
+		column += child.textContent!.length;
+	}
+
+	return lineRange(value, line)[0] + column;
+}
@@ -11,17 +11,32 @@ export function autoload(editor: ShikiCode): IDisposable {
 	const updateOptions = editor.updateOptions;
 
 	editor.updateOptions = async (newOptions) => {
-		const themes = editor.highlighter.getLoadedThemes();
-		const langs = editor.highlighter.getLoadedLanguages();
+		const { highlighter, worker } = editor;
+		const themes = highlighter.getLoadedThemes();
+		// the worker tokenizes, the highlighter still provides the colors of the themes
+		const worker_themes = worker?.getLoadedThemes() || [];
+		const langs = (worker || highlighter).getLoadedLanguages();
 
 		const task_list = [];
 
-		if (newOptions.theme !== void 0 && newOptions.theme !== "none" && !themes.includes(newOptions.theme)) {
-			task_list.push(editor.highlighter.loadTheme(newOptions.theme as unknown as BundledTheme));
+		if (newOptions.theme !== void 0) {
+			const theme_list = typeof newOptions.theme === "string" ? [newOptions.theme] : Object.values(newOptions.theme);
+			for (const theme of new Set(theme_list)) {
+				if (theme !== "none" && !themes.includes(theme)) {
+					task_list.push(highlighter.loadTheme(theme as unknown as BundledTheme));
+				}
+				if (worker && theme !== "none" && !worker_themes.includes(theme)) {
+					task_list.push(worker.loadTheme(theme));
+				}
+			}
 		}
 
 		if (newOptions.language !== void 0 && newOptions.language !== "text" && !langs.includes(newOptions.language)) {
-			task_list.push(editor.highlighter.loadLanguage(newOptions.language as BundledLanguage));
+			task_list.push(
+				worker
+					? worker.loadLanguage(newOptions.language)
+					: highlighter.loadLanguage(newOptions.language as BundledLanguage),
+			);
 		}
 
 		await Promise.all(task_list);
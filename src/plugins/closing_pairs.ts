@@ -1,119 +1,236 @@
-import { setRangeText } from "./common.js";
 import type { EditorPlugin } from "./index.js";
+import { getLanguageConfiguration } from "./language_configuration.js";
 
 export type ClosingPair = readonly [open: string, close: string];
 
+/**
+ * A pair which is not closed in strings or comments, as in VS Code `autoClosingPairs`.
+ * The open and close texts may be longer than one character, e.g. `{%` and `%}`.
+ */
+export interface AutoClosingPair {
+	readonly open: string;
+	readonly close: string;
+	readonly notIn?: readonly ("string" | "comment")[];
+}
+
 export type ClosingPairsRules = {
 	readonly language: string;
-	readonly pairs: ClosingPair[];
+	readonly pairs: (ClosingPair | AutoClosingPair)[];
+	/**
+	 * The characters after the caret which let a pair close, the end of the line always does.
+	 */
+	readonly autoCloseBefore?: string;
 };
 
 interface ResolvedClosingPairsRules {
-	auto_closing_pairs_open: Map<string, string>;
+	auto_closing_pairs: AutoClosingPair[];
 	auto_closing_pairs_close: Map<string, string>;
-	auto_closing_pairs: Set<string>;
+	auto_closing_pairs_text: Set<string>;
+	surrounding_pairs_open: Map<string, string>;
+	auto_close_before: string;
 }
 
-const should_auto_close = " \t\n.,;)]}>=";
+export const default_auto_close_before = " \t\n.,;)]}>=";
 
 /**
  * A plugin that automatically inserts closing pairs.
+ * The pairs are the `autoClosingPairs` and `surroundingPairs` of the language configuration,
+ * or the pairs given here for their language.
+ *
+ * A pair closes when the typed key completes its open text, the longest open text wins,
+ * and when the character after the caret is in `autoCloseBefore`.
+ * Pairs with `notIn` do not close in strings or comments, by the scopes of the rendered tokens.
+ * `Backspace` between a pair deletes both, with the `closingPairs.deletePair` command.
  */
 export function hookClosingPairs(...pairs_rule_list: readonly ClosingPairsRules[]): EditorPlugin {
-	const rules = new Map<string, ResolvedClosingPairsRules>();
-
-	const list = default_pairs.concat(pairs_rule_list);
-
-	for (const { language, pairs } of list) {
-		const auto_closing_pairs_open = new Map<string, string>();
-		const auto_closing_pairs_close = new Map<string, string>();
-		const auto_closing_pairs = new Set<string>();
-		pairs.forEach(([open, close]) => {
-			auto_closing_pairs_open.set(open, close);
-			auto_closing_pairs_close.set(close, open);
-			auto_closing_pairs.add(open + close);
-		});
-		rules.set(language, {
-			auto_closing_pairs_open,
-			auto_closing_pairs_close,
-			auto_closing_pairs,
-		});
-	}
+	const overrides = new Map(pairs_rule_list.map((rules) => [rules.language, rules]));
 
-	return ({ input }, options) => {
-		const onKeydown = (e: KeyboardEvent) => {
-			const config = rules.get(options.language);
-			if (!config) {
-				return;
-			}
+	const resolve = (language: string): ResolvedClosingPairsRules | undefined => {
+		const configuration = overrides.get(language) ? void 0 : getLanguageConfiguration(language);
+		const pairs = (overrides.get(language)?.pairs || configuration?.autoClosingPairs)?.map(toAutoClosingPair);
+		if (!pairs) {
+			return;
+		}
+		const surrounding_pairs = configuration?.surroundingPairs?.map(toAutoClosingPair) || pairs;
 
-			const { selectionStart, selectionEnd } = input;
+		return {
+			auto_closing_pairs: pairs,
+			auto_closing_pairs_close: new Map(pairs.map(({ open, close }) => [close, open])),
+			auto_closing_pairs_text: new Set(pairs.map(({ open, close }) => open + close)),
+			surrounding_pairs_open: new Map(
+				surrounding_pairs.filter(({ open }) => open.length === 1).map(({ open, close }) => [open, close]),
+			),
+			auto_close_before:
+				overrides.get(language)?.autoCloseBefore ?? configuration?.autoCloseBefore ?? default_auto_close_before,
+		};
+	};
 
-			if (isBackspace(e)) {
-				if (selectionStart !== selectionEnd) {
-					return;
-				}
+	return (editor, options) => {
+		const { input } = editor;
 
-				const slice = input.value.slice(selectionStart - 1, selectionStart + 1);
-				if (config.auto_closing_pairs.has(slice)) {
+		const isExcluded = (pair: AutoClosingPair, offset: number) => {
+			if (!pair.notIn || pair.notIn.length === 0) {
+				return false;
+			}
+			const scopesAt = (offset: number) => editor.getTokenAt(offset)?.scopes || [];
+			const kind = scopeKind(caretScopes(input.value, offset, scopesAt));
+			return kind !== void 0 && pair.notIn.includes(kind);
+		};
+
+		// selects the pair around the caret, which the default action of `Backspace` deletes
+		const deletePair = () => {
+			const config = resolve(options.language);
+			const { value, selectionStart, selectionEnd } = input;
+			if (config && !input.readOnly && selectionStart === selectionEnd) {
+				const slice = value.slice(selectionStart - 1, selectionStart + 1);
+				if (config.auto_closing_pairs_text.has(slice)) {
 					input.setSelectionRange(selectionStart - 1, selectionStart + 1);
 				}
+			}
+			return false;
+		};
+
+		const onKeydown = (e: KeyboardEvent) => {
+			const config = resolve(options.language);
+			if (!config) {
 				return;
 			}
 
-			if (!config.auto_closing_pairs_open.has(e.key) && !config.auto_closing_pairs_close.has(e.key)) {
+			const { value, selectionStart, selectionEnd } = input;
+
+			if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey || e.isComposing || e.defaultPrevented) {
 				return;
 			}
 
 			// add pairs surrounding the selection
-			if (selectionStart !== selectionEnd && config.auto_closing_pairs_open.has(e.key)) {
+			if (selectionStart !== selectionEnd && config.surrounding_pairs_open.has(e.key)) {
 				e.preventDefault();
-				const text = input.value.slice(selectionStart, selectionEnd);
+				const text = value.slice(selectionStart, selectionEnd);
 				const left = e.key;
-				const right = config.auto_closing_pairs_open.get(left)!;
-				setRangeText(input, left + text + right, selectionStart, selectionEnd, "select");
-				input.dispatchEvent(new Event("input"));
-				input.dispatchEvent(new Event("change"));
-				input.setSelectionRange(selectionStart + 1, selectionEnd + 1);
+				const right = config.surrounding_pairs_open.get(left)!;
+				editor.applyEdits([{ value: left + text + right, start: selectionStart, end: selectionEnd }], {
+					selection: { start: selectionStart + 1, end: selectionEnd + 1 },
+				});
+				return;
+			}
+
+			if (selectionStart !== selectionEnd) {
 				return;
 			}
 
 			// add pairs at the cursor
-			if (
-				selectionStart === selectionEnd &&
-				config.auto_closing_pairs_open.has(e.key) &&
-				should_auto_close.includes(input.value[selectionStart] || "")
-			) {
+			const { auto_closing_pairs, auto_close_before } = config;
+			const pair = closingPairAt(value, selectionStart, e.key, auto_closing_pairs, auto_close_before);
+			if (pair && !isExcluded(pair, selectionStart)) {
 				e.preventDefault();
-				const left = e.key;
-				const right = config.auto_closing_pairs_open.get(left)!;
-				setRangeText(input, left + right, selectionStart, selectionEnd, "start");
-				input.dispatchEvent(new Event("input"));
-				input.dispatchEvent(new Event("change"));
-				input.setSelectionRange(selectionStart + 1, selectionEnd + 1);
+
+				// the pair of the shorter open text closed before is replaced, e.g. the `}` of `{` as `{%` is typed
+				const closed = config.auto_closing_pairs.find(({ open }) => open === pair.open.slice(0, -1))?.close;
+				let end = selectionStart;
+				if (closed && value.startsWith(closed, selectionStart)) {
+					end += closed.length;
+				}
+
+				editor.applyEdits([{ value: e.key + pair.close, start: selectionStart, end }], {
+					selection: { start: selectionStart + 1, end: selectionStart + 1 },
+				});
 				return;
 			}
 
 			// skip right pairs
 			if (
-				selectionStart === selectionEnd &&
-				selectionStart > 0 &&
-				config.auto_closing_pairs.has(input.value.slice(selectionStart - 1, selectionStart + 1))
+				value[selectionStart] === e.key &&
+				config.auto_closing_pairs_close.has(e.key) &&
+				config.auto_closing_pairs_text.has(value.slice(selectionStart - 1, selectionStart + 1))
 			) {
 				input.setSelectionRange(selectionStart, selectionEnd + 1);
 			}
 		};
 
 		input.addEventListener("keydown", onKeydown);
+		const cleanup = [
+			editor.registerCommand("closingPairs.deletePair", deletePair),
+			editor.addKeybindings([{ key: "backspace", command: "closingPairs.deletePair" }]),
+		];
 
 		return () => {
 			input.removeEventListener("keydown", onKeydown);
+			cleanup.forEach((fn) => fn());
 		};
 	};
 }
 
-function isBackspace(e: KeyboardEvent) {
-	return e.key === "Backspace" && !e.shiftKey && !e.ctrlKey && !e.altKey && !e.metaKey;
+/**
+ * The pair to close as the key is typed at the offset, the one with the longest open text ending with the key.
+ */
+export function closingPairAt(
+	value: string,
+	offset: number,
+	key: string,
+	pairs: readonly AutoClosingPair[],
+	autoCloseBefore: string = default_auto_close_before,
+): AutoClosingPair | undefined {
+	const next = value[offset];
+	if (next !== void 0 && next !== "\n" && !autoCloseBefore.includes(next)) {
+		return;
+	}
+
+	let found: AutoClosingPair | undefined;
+	for (const pair of pairs) {
+		if (
+			(found === void 0 || pair.open.length > found.open.length) &&
+			pair.open.endsWith(key) &&
+			offset >= pair.open.length - 1 &&
+			value.startsWith(pair.open.slice(0, -1), offset - pair.open.length + 1)
+		) {
+			found = pair;
+		}
+	}
+	return found;
+}
+
+export function toAutoClosingPair(pair: ClosingPair | AutoClosingPair): AutoClosingPair {
+	return "open" in pair ? pair : { open: pair[0], close: pair[1] };
+}
+
+export function toClosingPair(pair: ClosingPair | AutoClosingPair): ClosingPair {
+	return "open" in pair ? [pair.open, pair.close] : pair;
+}
+
+// the scopes of the character before the caret, the end of a string or a comment is outside of it
+function caretScopes(
+	value: string,
+	offset: number,
+	scopesAt: (offset: number) => readonly string[],
+): readonly string[] {
+	if (offset === 0 || value[offset - 1] === "\n") {
+		return scopesAt(offset);
+	}
+	const scopes = scopesAt(offset - 1);
+	const innermost = scopes.at(-1) || "";
+	if (
+		innermost.startsWith("punctuation.definition.string.end") ||
+		innermost.startsWith("punctuation.definition.comment.end")
+	) {
+		return scopes.slice(0, -1).filter((scope) => !scope.startsWith("string") && !scope.startsWith("comment"));
+	}
+	return scopes;
+}
+
+// the innermost string or comment scope, code embedded in a string is neither
+function scopeKind(scopes: readonly string[]): "string" | "comment" | undefined {
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		const scope = scopes[i];
+		if (scope.startsWith("string")) {
+			return "string";
+		}
+		if (scope.startsWith("comment")) {
+			return "comment";
+		}
+		if (scope.startsWith("meta.embedded") || scope.startsWith("meta.template.expression")) {
+			return;
+		}
+	}
 }
 
 export const pairs_parentheses = ["(", ")"] satisfies ClosingPair;
@@ -124,21 +241,38 @@ export const pairs_quotes = ['"', '"'] satisfies ClosingPair;
 export const pairs_single_quotes = ["'", "'"] satisfies ClosingPair;
 export const pairs_backticks = ["`", "`"] satisfies ClosingPair;
 
-const c_lang_pairs: ClosingPair[] = [
-	pairs_parentheses,
-	pairs_brackets,
-	pairs_braces,
-	pairs_quotes,
-	pairs_single_quotes,
+// quotes do not close in strings, nor apostrophes and backticks in comments
+const quotes_pair: AutoClosingPair = { open: '"', close: '"', notIn: ["string"] };
+const single_quotes_pair: AutoClosingPair = { open: "'", close: "'", notIn: ["string", "comment"] };
+const backticks_pair: AutoClosingPair = { open: "`", close: "`", notIn: ["string", "comment"] };
+
+const c_lang_pairs: AutoClosingPair[] = [
+	toAutoClosingPair(pairs_parentheses),
+	toAutoClosingPair(pairs_brackets),
+	toAutoClosingPair(pairs_braces),
+	quotes_pair,
+	single_quotes_pair,
+];
+
+const c_lang_pairs_with_backticks: AutoClosingPair[] = [...c_lang_pairs, backticks_pair];
+
+const js_lang_pairs: AutoClosingPair[] = [
+	...c_lang_pairs_with_backticks,
+	{ open: "/**", close: " */", notIn: ["string"] },
 ];
 
-const c_lang_pairs_with_backticks: ClosingPair[] = [
-	pairs_parentheses,
-	pairs_brackets,
-	pairs_braces,
-	pairs_quotes,
-	pairs_single_quotes,
-	pairs_backticks,
+const python_pairs: AutoClosingPair[] = [
+	...c_lang_pairs,
+	{ open: '"""', close: '"""', notIn: ["string"] },
+	{ open: "'''", close: "'''", notIn: ["string"] },
+];
+
+// the tags of templates, e.g. Jinja and Liquid
+const template_pairs: AutoClosingPair[] = [
+	...c_lang_pairs,
+	{ open: "{%", close: "%}", notIn: ["string", "comment"] },
+	{ open: "{{", close: "}}", notIn: ["string", "comment"] },
+	{ open: "{#", close: "#}", notIn: ["string", "comment"] },
 ];
 
 export const default_pairs: readonly ClosingPairsRules[] = [
@@ -172,23 +306,23 @@ export const default_pairs: readonly ClosingPairsRules[] = [
 	},
 	{
 		language: "json",
-		pairs: [pairs_brackets, pairs_braces, pairs_quotes],
+		pairs: [pairs_brackets, pairs_braces, quotes_pair],
 	},
 	{
 		language: "javascript",
-		pairs: c_lang_pairs_with_backticks,
+		pairs: js_lang_pairs,
 	},
 	{
 		language: "typescript",
-		pairs: c_lang_pairs_with_backticks,
+		pairs: js_lang_pairs,
 	},
 	{
 		language: "jsx",
-		pairs: c_lang_pairs_with_backticks,
+		pairs: js_lang_pairs,
 	},
 	{
 		language: "tsx",
-		pairs: c_lang_pairs_with_backticks,
+		pairs: js_lang_pairs,
 	},
 	{
 		language: "php",
@@ -196,11 +330,11 @@ export const default_pairs: readonly ClosingPairsRules[] = [
 	},
 	{
 		language: "python",
-		pairs: c_lang_pairs,
+		pairs: python_pairs,
 	},
 	{
 		language: "rust",
-		pairs: [pairs_parentheses, pairs_brackets, pairs_braces, pairs_quotes],
+		pairs: [pairs_parentheses, pairs_brackets, pairs_braces, quotes_pair],
 	},
 	{
 		language: "ruby",
@@ -210,4 +344,12 @@ export const default_pairs: readonly ClosingPairsRules[] = [
 		language: "sql",
 		pairs: c_lang_pairs_with_backticks,
 	},
+	{
+		language: "jinja",
+		pairs: template_pairs,
+	},
+	{
+		language: "liquid",
+		pairs: template_pairs,
+	},
 ];
@@ -1,5 +1,6 @@
 import type { EditorPlugin } from "./index.js";
-import { setRangeText } from "./common.js";
+import type { Action } from "./common.js";
+import { getLanguageConfiguration } from "./language_configuration.js";
 
 interface CommentRule {
 	readonly language: string;
@@ -12,6 +13,11 @@ interface CommentRule {
 	readonly insertSpace?: boolean;
 }
 
+/**
+ * A plugin that toggles the comments of the selected lines with `Ctrl+/` (`Cmd+/` on macOS),
+ * the `comments.toggle` command.
+ * The comments are the `comments` of the language configuration, or the rules given here for their language.
+ */
 export function comments(...rule_list: CommentRule[]): EditorPlugin {
 	const rules = new Map<string, CommentRule>();
 	for (const rule of rule_list) {
@@ -19,82 +25,31 @@ export function comments(...rule_list: CommentRule[]): EditorPlugin {
 	}
 
 	return (editor, options) => {
-		const onKeydown = (e: KeyboardEvent) => {
-			if (e.key !== "/" || !ctrlKey(e)) return;
-			e.preventDefault();
-
+		const toggle = () => {
+			if (editor.input.readOnly) return false;
 			const lang = options.language;
-			const rule = rules.get(lang);
+			const rule: Omit<CommentRule, "language"> | undefined =
+				rules.get(lang) || getLanguageConfiguration(lang)?.comments;
 			if (!rule) return;
 			if (!rule.lineComment && !rule.blockComment) return;
 
-			if (rule.lineComment) {
-				const result = lineComment(editor.input, rule.lineComment, rule.insertSpace);
-				if (result.patch) {
-					setRangeText(
-						editor.input,
-						result.patch.value,
-						result.patch.start,
-						result.patch.end,
-						result.patch.mode,
-					);
-					editor.input.dispatchEvent(new Event("input"));
-					editor.input.dispatchEvent(new Event("change"));
-				}
-				if (result.select) {
-					editor.input.setSelectionRange(result.select.start, result.select.end, result.select.direction);
-					editor.input.dispatchEvent(new Event("selectionchange"));
-				}
-				return;
-			}
-
-			if (rule.blockComment) {
-				const result = blockComment(editor.input, rule.blockComment, rule.insertSpace);
-				if (result.patch) {
-					setRangeText(
-						editor.input,
-						result.patch.value,
-						result.patch.start,
-						result.patch.end,
-						result.patch.mode,
-					);
-					editor.input.dispatchEvent(new Event("input"));
-					editor.input.dispatchEvent(new Event("change"));
-				}
-				if (result.select) {
-					editor.input.setSelectionRange(result.select.start, result.select.end, result.select.direction);
-					editor.input.dispatchEvent(new Event("selectionchange"));
-				}
-				return;
-			}
+			const result = rule.lineComment
+				? lineComment(editor.input, rule.lineComment, rule.insertSpace)
+				: blockComment(editor.input, rule.blockComment!, rule.insertSpace);
+			editor.applyEdits(result.patch ? [result.patch] : [], { selection: result.select });
 		};
 
-		editor.input.addEventListener("keydown", onKeydown);
+		const cleanup = [
+			editor.registerCommand("comments.toggle", toggle),
+			editor.addKeybindings([{ key: "mod+/", command: "comments.toggle" }]),
+		];
 
 		return () => {
-			editor.input.removeEventListener("keydown", onKeydown);
+			cleanup.forEach((fn) => fn());
 		};
 	};
 }
 
-interface PatchAction {
-	value: string;
-	start: number;
-	end: number;
-	mode?: SelectionMode;
-}
-
-interface SelectAction {
-	start: number;
-	end: number;
-	direction?: "forward" | "backward" | "none";
-}
-
-interface Action {
-	patch?: PatchAction;
-	select?: SelectAction;
-}
-
 const empty_action: Action = {};
 
 function lineComment(input: HTMLTextAreaElement, comment: string, insertSpace: boolean = true): Action {
@@ -284,13 +239,3 @@ function getLineEnd(text: string, index: number): number {
 	}
 	return index;
 }
-
-let isMacintosh = false;
-
-if (typeof navigator === "object" && typeof navigator.userAgent === "string") {
-	isMacintosh = navigator.userAgent.indexOf("Macintosh") >= 0;
-}
-
-function ctrlKey(e: KeyboardEvent) {
-	return isMacintosh ? e.metaKey : e.ctrlKey;
-}
@@ -1,3 +1,6 @@
+import { lineElement, lineIndexOf } from "../render.js";
+import type { ShikiCode } from "./index.js";
+
 export function floorTab(width: number, tabSize: number): number {
 	switch (tabSize) {
 		case 2:
@@ -78,34 +81,22 @@ export function visibleWidthLeadingSpace(line: string, tabSize: number): [width:
 }
 
 /**
- * Instead of using the `setRangeText` method,
- * prefer to use the `execCommand` method to preserve the undo stack.
+ * Match the text literally in a regular expression.
  */
-export function setRangeText(
-	input: HTMLTextAreaElement,
-	replacement: string,
-	start: number,
-	end: number,
-	selectionMode?: SelectionMode,
-) {
-	input.setSelectionRange(start, end);
-	input.ownerDocument.execCommand("insertText", false, replacement);
-	switch (selectionMode) {
-		case "start": {
-			input.setSelectionRange(start, start);
-			break;
-		}
-		case "end": {
-			input.setSelectionRange(start + replacement.length, start + replacement.length);
-			break;
-		}
+export function escapeRegExp(text: string): string {
+	return text.replaceAll(/[$()*+.?[\\\]^{|}]/g, "\\$&");
+}
 
-		case "select":
-		default: {
-			input.setSelectionRange(start, start + replacement.length);
-			break;
-		}
-	}
+export const isMacintosh =
+	typeof navigator === "object" &&
+	typeof navigator.userAgent === "string" &&
+	navigator.userAgent.indexOf("Macintosh") >= 0;
+
+/**
+ * `Cmd` on macOS, `Ctrl` elsewhere.
+ */
+export function ctrlKey(e: KeyboardEvent) {
+	return isMacintosh ? e.metaKey : e.ctrlKey;
 }
 
 export interface InputState {
@@ -126,3 +117,195 @@ export interface InputState {
 	 */
 	selectionDirection?: "forward" | "backward" | "none";
 }
+
+export interface PatchAction {
+	value: string;
+	start: number;
+	end: number;
+	mode?: SelectionMode;
+}
+
+export interface SelectAction {
+	start: number;
+	end: number;
+	direction?: "forward" | "backward" | "none";
+}
+
+export interface Action {
+	/**
+	 * The patched text content.
+	 */
+	patch?: PatchAction;
+	/**
+	 * The new selection.
+	 */
+	select?: SelectAction;
+}
+
+/**
+ * Combine edits into a single patch covering all of them.
+ * The offsets of every edit are relative to `value`, and the edits must not overlap.
+ */
+export function composeEdits(value: string, edits: readonly PatchAction[]): PatchAction | undefined {
+	if (edits.length === 0) {
+		return void 0;
+	}
+
+	const sorted = sortEdits(edits);
+
+	const start = sorted[0].start;
+	let end = start;
+	let replacement = "";
+
+	for (const edit of sorted) {
+		if (edit.start < end) {
+			throw new RangeError(`Overlapping edits at offset ${edit.start}`);
+		}
+		replacement += value.slice(end, edit.start) + edit.value;
+		end = edit.end;
+	}
+
+	return {
+		value: replacement,
+		start,
+		end,
+		mode: sorted[sorted.length - 1].mode,
+	};
+}
+
+/**
+ * The selection after the edits, relative to the new value.
+ * The `mode` of the last edit applies to the text of that edit only, it defaults to `select` for a single edit,
+ * and to a caret at the end of the last edit after several edits, e.g. replacing every match.
+ */
+export function selectionAfterEdits(edits: readonly PatchAction[]): SelectAction | undefined {
+	const sorted = sortEdits(edits);
+	const last = sorted.at(-1);
+	if (!last) {
+		return void 0;
+	}
+
+	const delta = sorted.slice(0, -1).reduce((sum, edit) => sum + edit.value.length - (edit.end - edit.start), 0);
+	const start = last.start + delta;
+	const end = start + last.value.length;
+	switch (last.mode ?? (sorted.length > 1 ? "end" : "select")) {
+		case "start": {
+			return { start, end: start };
+		}
+		case "end": {
+			return { start: end, end };
+		}
+		default: {
+			return { start, end };
+		}
+	}
+}
+
+/**
+ * Sort edits by offset, edits inserting at the same offset keep their order.
+ */
+export function sortEdits(edits: readonly PatchAction[]): PatchAction[] {
+	return edits.slice().sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Scroll the editor until the line containing `offset` is visible.
+ */
+export function revealOffset(editor: ShikiCode, offset: number) {
+	const { input, output } = editor;
+
+	let line_index = 0;
+	for (let i = input.value.indexOf("\n"); i !== -1 && i < offset; i = input.value.indexOf("\n", i + 1)) {
+		line_index++;
+	}
+
+	// the line may not be rendered in virtual mode, the lines have a fixed height then
+	const line = lineElement(output, line_index);
+	const line_height = line ? line.offsetHeight : input.scrollHeight / Math.max(editor.tokenizedLines.length, 1);
+	const top = line ? line.offsetTop : line_index * line_height;
+	const bottom = top + line_height;
+	if (top < input.scrollTop || bottom > input.scrollTop + input.clientHeight) {
+		input.scrollTop = top - (input.clientHeight - line_height) / 2;
+	}
+}
+
+/**
+ * The position of the caret at `offset` in the viewport, from the rendered line.
+ * It is `undefined` when the line is not rendered, e.g. out of the window in virtual mode.
+ */
+export function offsetRect(editor: ShikiCode, offset: number): DOMRect | undefined {
+	const { input, output } = editor;
+	const doc = output.ownerDocument;
+
+	let line_index = 0;
+	let line_start = 0;
+	for (let i = input.value.indexOf("\n"); i !== -1 && i < offset; i = input.value.indexOf("\n", i + 1)) {
+		line_index++;
+		line_start = i + 1;
+	}
+
+	const line = lineElement(output, line_index);
+	if (!line) {
+		return;
+	}
+
+	let column = offset - line_start;
+	const walker = doc.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+	for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+		const length = node.textContent!.length;
+		if (column <= length) {
+			const range = doc.createRange();
+			range.setStart(node, column);
+			range.setEnd(node, column);
+			return range.getBoundingClientRect();
+		}
+		column -= length;
+	}
+
+	// an empty line starts after the gutter
+	const line_rect = line.getBoundingClientRect();
+	const left = input.getBoundingClientRect().left + Number.parseFloat(getComputedStyle(input).paddingLeft);
+	return new DOMRect(left - input.scrollLeft, line_rect.top, 0, line_rect.height);
+}
+
+/**
+ * The offset of the character at a point of the viewport, from the rendered lines.
+ * The output ignores the pointer, so the point is tested against the rects of the text rather than an event target.
+ * It is `undefined` when there is no character at the point, e.g. after the end of a line or in the gutter.
+ */
+export function offsetAt(editor: ShikiCode, x: number, y: number): number | undefined {
+	const { input, output } = editor;
+	const doc = output.ownerDocument;
+
+	const contains = (rect: DOMRect) => x >= rect.left && x < rect.right && y >= rect.top && y < rect.bottom;
+	const range = doc.createRange();
+
+	for (const line of output.querySelectorAll(".line")) {
+		if (!contains(line.getBoundingClientRect())) {
+			continue;
+		}
+
+		let column = 0;
+		const walker = doc.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+		for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+			const length = node.textContent!.length;
+			range.selectNode(node);
+			if (Array.from(range.getClientRects()).some(contains)) {
+				for (let i = 0; i < length; i++) {
+					range.setStart(node, i);
+					range.setEnd(node, i + 1);
+					if (Array.from(range.getClientRects()).some(contains)) {
+						let line_start = 0;
+						for (let index = lineIndexOf(line); index > 0; index--) {
+							line_start = input.value.indexOf("\n", line_start) + 1;
+						}
+						return line_start + column + i;
+					}
+				}
+			}
+			column += length;
+		}
+		return void 0;
+	}
+	return void 0;
+}
@@ -0,0 +1,554 @@
+import { injectStyle } from "../style.js";
+import { offsetRect } from "./common.js";
+import type { EditorPlugin, IDisposable } from "./index.js";
+import {
+	createProviderRegistry,
+	default_word_pattern,
+	getLanguageConfiguration,
+} from "./language_configuration.js";
+import { insertSnippet } from "./snippet.js";
+
+export type CompletionItemKind =
+	| "text"
+	| "keyword"
+	| "variable"
+	| "constant"
+	| "function"
+	| "method"
+	| "property"
+	| "field"
+	| "class"
+	| "interface"
+	| "type"
+	| "module"
+	| "value"
+	| "snippet";
+
+export interface CompletionItem {
+	/**
+	 * Shown in the list, and inserted when there is no `insertText`.
+	 */
+	readonly label: string;
+	readonly kind?: CompletionItemKind;
+	/**
+	 * Shown next to the label, e.g. the type of a variable.
+	 */
+	readonly detail?: string;
+	/**
+	 * Shown under the list for the selected item.
+	 */
+	readonly documentation?: string;
+	readonly insertText?: string;
+	/**
+	 * `snippet` inserts `insertText` as a snippet with tab stops, which needs the `hookSnippets` plugin.
+	 * Defaults to `plainText`.
+	 */
+	readonly insertTextFormat?: "plainText" | "snippet";
+	/**
+	 * The text matched against the typed word, the `label` when omitted.
+	 */
+	readonly filterText?: string;
+	/**
+	 * The text sorting the items which match the typed word equally well, the `label` when omitted.
+	 */
+	readonly sortText?: string;
+}
+
+export interface CompletionContext {
+	readonly value: string;
+	readonly language: string;
+	/**
+	 * The offset of the caret.
+	 */
+	readonly offset: number;
+	/**
+	 * The word before the caret, which the accepted item replaces.
+	 */
+	readonly word: { readonly start: number; readonly end: number; readonly text: string };
+	/**
+	 * The trigger character typed before the caret, if any.
+	 */
+	readonly triggerCharacter?: string;
+}
+
+export interface CompletionProvider {
+	provideCompletionItems(context: CompletionContext): readonly CompletionItem[] | Promise<readonly CompletionItem[]>;
+	/**
+	 * Typing one of these characters opens the suggestions, besides typing a word.
+	 */
+	readonly triggerCharacters?: readonly string[];
+}
+
+const providers = createProviderRegistry<CompletionProvider>();
+
+/**
+ * Register a provider of completion items for a language, or for every language with `*`.
+ * Dispose to remove the provider.
+ */
+export function registerCompletionProvider(language: string, provider: CompletionProvider): IDisposable {
+	return providers.register(language, provider);
+}
+
+export interface CompletionOptions {
+	/**
+	 * Suggest the words of the document besides the items of the providers, defaults to true.
+	 */
+	readonly documentWords?: boolean;
+}
+
+// the number of items in the list at most
+const max_items = 200;
+
+const style = `.shikicode.suggest-widget {
+	position: absolute;
+	z-index: 1;
+	box-shadow: 0 2px 8px rgb(0 0 0 / 36%);
+	border: 1px solid rgb(128 128 128 / 40%);
+	border-radius: 4px;
+	background-color: var(--bg);
+	min-width: 16em;
+	max-width: 32em;
+	color: var(--fg);
+	font-size: 13px;
+	font-family: sans-serif;
+	line-height: normal;
+}
+
+.shikicode.suggest-widget[hidden] {
+	display: none;
+}
+
+.shikicode.suggest-widget .suggest-list {
+	max-height: calc(12 * 1.6em);
+	overflow-y: auto;
+}
+
+.shikicode.suggest-widget .suggest-item {
+	display: flex;
+	align-items: center;
+	gap: 6px;
+	cursor: pointer;
+	padding: 0 6px;
+	height: 1.6em;
+	white-space: nowrap;
+}
+
+.shikicode.suggest-widget .suggest-item[aria-selected="true"] {
+	background-color: rgb(128 128 128 / 25%);
+}
+
+.shikicode.suggest-widget .suggest-kind {
+	flex: none;
+	min-width: 1.2em;
+	opacity: 0.7;
+	text-align: center;
+}
+
+.shikicode.suggest-widget .suggest-label {
+	font-family: var(--font-family, monospace);
+}
+
+.shikicode.suggest-widget .suggest-detail {
+	margin-left: auto;
+	overflow: hidden;
+	opacity: 0.7;
+	text-overflow: ellipsis;
+}
+
+.shikicode.suggest-widget .suggest-docs {
+	border-top: 1px solid rgb(128 128 128 / 40%);
+	padding: 4px 6px;
+	white-space: pre-wrap;
+}
+
+.shikicode.suggest-widget .suggest-docs:empty {
+	display: none;
+}
+`;
+
+const kind_icons: Record<CompletionItemKind, string> = {
+	text: "abc",
+	keyword: "k",
+	variable: "x",
+	constant: "c",
+	function: "ƒ",
+	method: "m",
+	property: "p",
+	field: "f",
+	class: "C",
+	interface: "I",
+	type: "T",
+	module: "{}",
+	value: "v",
+	snippet: "…",
+};
+
+interface Session {
+	/**
+	 * The start of the word the accepted item replaces.
+	 */
+	readonly start: number;
+	readonly items: readonly CompletionItem[];
+	filtered: CompletionItem[];
+	selected: number;
+}
+
+/**
+ * A plugin that suggests completions in a list under the caret.
+ * The items come from the providers registered with `registerCompletionProvider` and from the words of the document.
+ *
+ * Typing a word or a trigger character opens the list, `Ctrl+Space` opens it at any time.
+ * `Up` and `Down` select an item, `Enter` and `Tab` accept it, `Escape` closes the list.
+ * These keys are bound with the `suggestWidgetVisible` context, so they take precedence over the other plugins
+ * while the list is open.
+ *
+ * The commands are `completion.trigger`, `completion.selectNext`, `completion.selectPrevious`,
+ * `completion.selectNextPage`, `completion.selectPreviousPage`, `completion.accept` and `completion.close`.
+ */
+export function hookCompletion(completion_options: CompletionOptions = {}): EditorPlugin {
+	const { documentWords: document_words = true } = completion_options;
+
+	return (editor, options) => {
+		const { input, container } = editor;
+		const doc = input.ownerDocument;
+
+		const widget = doc.createElement("div");
+		widget.className = "shikicode suggest-widget";
+		widget.hidden = true;
+		const list = doc.createElement("div");
+		list.className = "suggest-list";
+		list.setAttribute("role", "listbox");
+		const docs = doc.createElement("div");
+		docs.className = "suggest-docs";
+		widget.append(list, docs);
+		container.append(widget);
+
+		let session: Session | undefined;
+		// the latest request, older results are dropped
+		let request = 0;
+		let accepting = false;
+
+		const close = () => {
+			request++;
+			session = void 0;
+			widget.hidden = true;
+			editor.setContext("suggestWidgetVisible", false);
+			list.replaceChildren();
+			docs.textContent = "";
+		};
+
+		const render = () => {
+			if (!session || session.filtered.length === 0) {
+				close();
+				return;
+			}
+
+			list.replaceChildren(
+				...session.filtered.map((item, index) => {
+					const row = doc.createElement("div");
+					row.className = "suggest-item";
+					row.setAttribute("role", "option");
+					row.setAttribute("aria-selected", String(index === session!.selected));
+					row.dataset.index = String(index);
+
+					const kind = doc.createElement("span");
+					kind.className = "suggest-kind";
+					kind.textContent = kind_icons[item.kind || "text"];
+					const label = doc.createElement("span");
+					label.className = "suggest-label";
+					label.textContent = item.label;
+					row.append(kind, label);
+
+					if (item.detail) {
+						const detail = doc.createElement("span");
+						detail.className = "suggest-detail";
+						detail.textContent = item.detail;
+						row.append(detail);
+					}
+					return row;
+				}),
+			);
+			docs.textContent = session.filtered[session.selected].documentation || "";
+
+			const rect = offsetRect(editor, session.start);
+			if (!rect) {
+				close();
+				return;
+			}
+			const container_rect = container.getBoundingClientRect();
+			widget.style.left = `${rect.left - container_rect.left}px`;
+			widget.style.top = `${rect.bottom - container_rect.top}px`;
+			widget.hidden = false;
+			editor.setContext("suggestWidgetVisible", true);
+			list.children[session.selected].scrollIntoView({ block: "nearest" });
+		};
+
+		const select = (index: number) => {
+			if (!session) {
+				return;
+			}
+			const length = session.filtered.length;
+			list.children[session.selected].setAttribute("aria-selected", "false");
+			session.selected = (index + length) % length;
+			list.children[session.selected].setAttribute("aria-selected", "true");
+			list.children[session.selected].scrollIntoView({ block: "nearest" });
+			docs.textContent = session.filtered[session.selected].documentation || "";
+		};
+
+		// the caret is still after the word the list was opened for
+		const isInWord = (start: number, offset: number) =>
+			offset >= start && !/\s/.test(input.value.slice(start, offset));
+
+		// keep the items and filter them by the word typed so far
+		const refilter = () => {
+			if (!session) {
+				return;
+			}
+			const { value, selectionStart, selectionEnd } = input;
+			if (selectionStart !== selectionEnd || !isInWord(session.start, selectionStart)) {
+				close();
+				return;
+			}
+			const word = value.slice(session.start, selectionStart);
+			session.filtered = filterCompletions(session.items, word).slice(0, max_items);
+			session.selected = 0;
+			render();
+		};
+
+		const trigger = async (trigger_character?: string) => {
+			const { value, selectionStart: offset } = input;
+			const language = options.language;
+			const word_pattern = getLanguageConfiguration(language)?.wordPattern || default_word_pattern;
+			const word = trigger_character
+				? { start: offset, end: offset, text: "" }
+				: wordBefore(value, offset, word_pattern);
+			const context: CompletionContext = { value, language, offset, word, triggerCharacter: trigger_character };
+
+			const id = ++request;
+			// a failing provider leaves out its items only
+			const results = await Promise.allSettled(
+				providers
+					.providersOf(language)
+					.filter((provider) => !trigger_character || provider.triggerCharacters?.includes(trigger_character))
+					.map((provider) => Promise.resolve().then(() => provider.provideCompletionItems(context))),
+			);
+			if (id !== request || input.value !== value || input.selectionStart !== offset) {
+				return;
+			}
+
+			const items = results.flatMap((result) => (result.status === "fulfilled" ? result.value : []));
+			if (document_words && !trigger_character) {
+				const labels = new Set(items.map(({ label }) => label));
+				for (const text of documentWordList(value, word_pattern, word)) {
+					if (!labels.has(text)) {
+						items.push({ label: text, kind: "text" });
+					}
+				}
+			}
+
+			session = { start: word.start, items, filtered: [], selected: 0 };
+			refilter();
+		};
+
+		const accept = () => {
+			if (!session) {
+				return;
+			}
+			const item = session.filtered[session.selected];
+			const { start } = session;
+			close();
+
+			const text = item.insertText ?? item.label;
+			accepting = true;
+			try {
+				if (item.insertTextFormat === "snippet") {
+					insertSnippet(editor, text, { start, end: input.selectionStart });
+				} else {
+					editor.applyEdits([{ value: text, start, end: input.selectionStart, mode: "end" }]);
+				}
+			} finally {
+				accepting = false;
+			}
+		};
+
+		const selectPage = (direction: number) => {
+			if (session) {
+				const index = session.selected + direction * 11;
+				select(Math.max(0, Math.min(index, session.filtered.length - 1)));
+			}
+		};
+
+		const onMouseDown = (e: MouseEvent) => {
+			// keep the focus in the editor
+			e.preventDefault();
+			const row = (e.target as HTMLElement).closest<HTMLElement>(".suggest-item");
+			if (row && session) {
+				session.selected = Number(row.dataset.index);
+				accept();
+			}
+		};
+
+		input.addEventListener("scroll", close);
+		widget.addEventListener("mousedown", onMouseDown);
+
+		const cleanup = [
+			editor.onDidChangeContent(({ changes, value }) => {
+				if (accepting || options.readOnly) {
+					return;
+				}
+
+				// only typing a character opens the list
+				const [change] = changes;
+				const typed =
+					changes.length === 1 &&
+					change.text.length === 1 &&
+					change.start === change.end &&
+					input.selectionStart === change.start + 1;
+				if (!typed) {
+					close();
+					return;
+				}
+
+				if (session) {
+					refilter();
+					if (session) {
+						return;
+					}
+				}
+
+				const trigger_characters = providers
+					.providersOf(options.language)
+					.flatMap((p) => p.triggerCharacters || []);
+				if (trigger_characters.includes(change.text)) {
+					trigger(change.text);
+					return;
+				}
+				const word_pattern = getLanguageConfiguration(options.language)?.wordPattern || default_word_pattern;
+				if (wordBefore(value, input.selectionStart, word_pattern).text !== "") {
+					trigger();
+				}
+			}),
+			editor.onDidChangeSelection(({ selectionStart, selectionEnd }) => {
+				// typing is handled with the content change
+				if (session && (selectionStart !== selectionEnd || !isInWord(session.start, selectionStart))) {
+					close();
+				}
+			}),
+			editor.onDidBlur(close),
+			editor.onDidChangeOptions(close),
+			editor.registerCommand("completion.trigger", () => {
+				if (!options.readOnly) {
+					trigger();
+				}
+			}),
+			editor.registerCommand("completion.selectNext", () => select((session?.selected ?? 0) + 1)),
+			editor.registerCommand("completion.selectPrevious", () => select((session?.selected ?? 0) - 1)),
+			editor.registerCommand("completion.selectNextPage", () => selectPage(1)),
+			editor.registerCommand("completion.selectPreviousPage", () => selectPage(-1)),
+			editor.registerCommand("completion.accept", accept),
+			editor.registerCommand("completion.close", close),
+			editor.addKeybindings([
+				{ key: "ctrl+space", command: "completion.trigger" },
+				{ key: "down", command: "completion.selectNext", when: "suggestWidgetVisible" },
+				{ key: "up", command: "completion.selectPrevious", when: "suggestWidgetVisible" },
+				{ key: "pagedown", command: "completion.selectNextPage", when: "suggestWidgetVisible" },
+				{ key: "pageup", command: "completion.selectPreviousPage", when: "suggestWidgetVisible" },
+				{ key: "enter", command: "completion.accept", when: "suggestWidgetVisible" },
+				{ key: "tab", command: "completion.accept", when: "suggestWidgetVisible" },
+				{ key: "escape", command: "completion.close", when: "suggestWidgetVisible" },
+			]),
+			injectStyle(doc, style),
+		];
+
+		return () => {
+			close();
+			input.removeEventListener("scroll", close);
+			cleanup.forEach((fn) => fn());
+			widget.remove();
+		};
+	};
+}
+
+/**
+ * The word ending at `offset`, by the word pattern of the language.
+ */
+export function wordBefore(value: string, offset: number, word_pattern: RegExp = default_word_pattern) {
+	const line_start = value.lastIndexOf("\n", offset - 1) + 1;
+	const pattern = new RegExp(word_pattern.source, word_pattern.flags.replace("g", "") + "g");
+
+	for (const match of value.slice(line_start, offset).matchAll(pattern)) {
+		const start = line_start + match.index!;
+		if (start + match[0].length === offset) {
+			return { start, end: offset, text: match[0] };
+		}
+	}
+	return { start: offset, end: offset, text: "" };
+}
+
+/**
+ * The distinct words of the document, except the word being typed and the numbers.
+ */
+export function documentWordList(
+	value: string,
+	word_pattern: RegExp = default_word_pattern,
+	except?: { readonly start: number },
+): string[] {
+	const pattern = new RegExp(word_pattern.source, word_pattern.flags.replace("g", "") + "g");
+	const words = new Set<string>();
+
+	for (const match of value.matchAll(pattern)) {
+		if (match.index === except?.start || /^\d/.test(match[0])) {
+			continue;
+		}
+		words.add(match[0]);
+	}
+	return Array.from(words);
+}
+
+/**
+ * The items matching `word`, the best matches first.
+ * The characters of the word must appear in order in the item, regardless of case,
+ * items starting with the word come first, then those with the same case.
+ */
+export function filterCompletions(items: readonly CompletionItem[], word: string): CompletionItem[] {
+	const lower_word = word.toLowerCase();
+
+	const scored: [item: CompletionItem, score: number][] = [];
+	for (const item of items) {
+		const text = item.filterText ?? item.label;
+		if (word === "") {
+			scored.push([item, 0]);
+			continue;
+		}
+		const lower_text = text.toLowerCase();
+		let index = -1;
+		let matched = true;
+		for (const char of lower_word) {
+			index = lower_text.indexOf(char, index + 1);
+			if (index === -1) {
+				matched = false;
+				break;
+			}
+		}
+		if (!matched) {
+			continue;
+		}
+
+		let score = 0;
+		if (text.startsWith(word)) {
+			score = 3;
+		} else if (lower_text.startsWith(lower_word)) {
+			score = 2;
+		} else if (lower_text.includes(lower_word)) {
+			score = 1;
+		}
+		scored.push([item, score]);
+	}
+
+	return scored
+		.sort(
+			([a, a_score], [b, b_score]) =>
+				b_score - a_score || (a.sortText ?? a.label).localeCompare(b.sortText ?? b.label),
+		)
+		.map(([item]) => item);
+}
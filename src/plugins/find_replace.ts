@@ -0,0 +1,439 @@
+import { injectStyle } from "../style.js";
+import { ctrlKey, escapeRegExp, revealOffset } from "./common.js";
+import type { EditorOptions, IDisposable, ShikiCode } from "./index.js";
+
+export interface FindOptions {
+	/**
+	 * Treat the query as a regular expression.
+	 */
+	readonly regex: boolean;
+	readonly matchCase: boolean;
+	/**
+	 * Only match whole words.
+	 */
+	readonly wholeWord: boolean;
+}
+
+const decoration_owner = "find-replace";
+
+const style = `.shikicode.find-widget {
+	display: flex;
+	position: absolute;
+	top: 0;
+	right: 1em;
+	flex-direction: column;
+	gap: 4px;
+	z-index: 1;
+	box-shadow: 0 2px 8px rgb(0 0 0 / 36%);
+	border-radius: 0 0 4px 4px;
+	background-color: var(--bg);
+	padding: 4px 8px;
+	color: var(--fg);
+	font-size: 13px;
+	font-family: sans-serif;
+	line-height: normal;
+}
+
+.shikicode.find-widget[hidden] {
+	display: none;
+}
+
+.shikicode.find-widget .row {
+	display: flex;
+	align-items: center;
+	gap: 2px;
+}
+
+.shikicode.find-widget .row[hidden] {
+	display: none;
+}
+
+.shikicode.find-widget input {
+	border: 1px solid currentcolor;
+	border-radius: 2px;
+	background: transparent;
+	padding: 2px 4px;
+	width: 16em;
+	color: inherit;
+	font: inherit;
+}
+
+.shikicode.find-widget input[aria-invalid="true"] {
+	outline: 1px solid #f14c4c;
+}
+
+.shikicode.find-widget button {
+	border: 1px solid transparent;
+	border-radius: 2px;
+	background: transparent;
+	padding: 2px 4px;
+	min-width: 2em;
+	color: inherit;
+	font: inherit;
+}
+
+.shikicode.find-widget button[aria-pressed="true"] {
+	border-color: currentcolor;
+}
+
+.shikicode.find-widget button:disabled {
+	opacity: 0.5;
+}
+
+.shikicode.find-widget .count {
+	padding: 0 4px;
+	min-width: 5em;
+	white-space: nowrap;
+}
+
+.shikicode.output .find-match {
+	background-color: rgb(234 92 0 / 33%);
+}
+
+.shikicode.output .find-match.current {
+	outline: 1px solid rgb(234 92 0);
+	background-color: rgb(234 92 0 / 60%);
+}
+`;
+
+/**
+ * A find and replace widget, opened by `Ctrl+F` and `Ctrl+H` (`Cmd+Alt+F` on macOS).
+ *
+ * - `Enter` and `F3` go to the next match, with `Shift` to the previous one.
+ * - `Enter` in the replace input replaces the current match, `Ctrl+Alt+Enter` replaces all of them.
+ * - `Alt+C`, `Alt+W` and `Alt+R` toggle matching case, whole words and regular expressions.
+ *
+ * The keys of the editor are bound to the commands `find.open`, `find.openReplace`, and with the `findWidgetVisible`
+ * context to `find.next`, `find.previous` and `find.close`.
+ */
+export function findReplace(editor: ShikiCode, options: EditorOptions): IDisposable {
+	const { input } = editor;
+	const doc = input.ownerDocument;
+
+	const widget = createWidget(doc);
+	widget.root.hidden = true;
+	editor.container.append(widget.root);
+
+	const find_options = { regex: false, matchCase: false, wholeWord: false };
+	let matches: RegExpMatchArray[] = [];
+	let current = -1;
+
+	const render = () => {
+		editor.setDecorations(
+			decoration_owner,
+			widget.root.hidden
+				? []
+				: matches.map((match, i) => ({
+						start: match.index!,
+						end: match.index! + match[0].length,
+						className: i === current ? "find-match current" : "find-match",
+					})),
+		);
+
+		if (widget.find.getAttribute("aria-invalid") === "true") {
+			widget.count.textContent = "Invalid";
+		} else if (matches.length === 0) {
+			widget.count.textContent = widget.find.value ? "No results" : "";
+		} else {
+			widget.count.textContent = `${current + 1} of ${matches.length}`;
+		}
+
+		const read_only = options.readOnly || matches.length === 0;
+		widget.replaceOne.disabled = read_only;
+		widget.replaceAll.disabled = read_only;
+	};
+
+	// search again and keep the current match closest to `offset`
+	const search = (offset: number) => {
+		try {
+			matches = findMatches(input.value, widget.find.value, find_options);
+			widget.find.removeAttribute("aria-invalid");
+		} catch {
+			matches = [];
+			widget.find.setAttribute("aria-invalid", "true");
+		}
+
+		current = matches.findIndex((match) => match.index! >= offset);
+		if (current === -1 && matches.length > 0) {
+			current = 0;
+		}
+		render();
+	};
+
+	const select = (index: number) => {
+		if (matches.length === 0) {
+			return;
+		}
+
+		current = (index + matches.length) % matches.length;
+		const match = matches[current];
+		input.setSelectionRange(match.index!, match.index! + match[0].length);
+		input.dispatchEvent(new Event("selectionchange"));
+		revealOffset(editor, match.index!);
+		render();
+	};
+
+	const open = (replace: boolean) => {
+		const { value, selectionStart, selectionEnd } = input;
+		const selected = value.slice(selectionStart, selectionEnd);
+		if (selected && !selected.includes("\n")) {
+			widget.find.value = find_options.regex ? escapeRegExp(selected) : selected;
+		}
+
+		widget.root.hidden = false;
+		widget.replaceRow.hidden = !replace;
+		editor.setContext("findWidgetVisible", true);
+
+		const focus = replace && widget.find.value ? widget.replace : widget.find;
+		focus.focus();
+		focus.select();
+
+		search(selectionStart);
+	};
+
+	const close = () => {
+		if (widget.root.hidden) {
+			return;
+		}
+		widget.root.hidden = true;
+		editor.setContext("findWidgetVisible", false);
+		render();
+		input.focus();
+	};
+
+	const replaceOne = () => {
+		if (options.readOnly || current === -1) {
+			return;
+		}
+
+		const match = matches[current];
+		const value = replacement(match, widget.replace.value, find_options);
+		const start = match.index!;
+		editor.applyEdits([{ value, start, end: start + match[0].length }]);
+
+		// the content change searched again from the start of the match, skip the replaced text
+		const next = matches.findIndex((m) => m.index! >= start + value.length);
+		select(next === -1 ? 0 : next);
+	};
+
+	const replaceAll = () => {
+		if (options.readOnly || matches.length === 0) {
+			return;
+		}
+
+		editor.applyEdits(
+			matches.map((match) => ({
+				value: replacement(match, widget.replace.value, find_options),
+				start: match.index!,
+				end: match.index! + match[0].length,
+			})),
+		);
+	};
+
+	const toggle = (key: keyof FindOptions) => {
+		find_options[key] = !find_options[key];
+		widget.toggles[key].setAttribute("aria-pressed", String(find_options[key]));
+		search(input.selectionStart);
+	};
+
+	const onWidgetKeydown = (e: KeyboardEvent) => {
+		const key = e.key.toLowerCase();
+		if (e.key === "Escape") {
+			e.preventDefault();
+			close();
+		} else if (e.key === "F3" || (e.key === "Enter" && e.target === widget.find)) {
+			e.preventDefault();
+			select(current + (e.shiftKey ? -1 : 1));
+		} else if (e.key === "Enter" && e.target === widget.replace) {
+			e.preventDefault();
+			if (ctrlKey(e) && e.altKey) {
+				replaceAll();
+			} else {
+				replaceOne();
+			}
+		} else if (e.altKey && !ctrlKey(e) && key in toggle_keys) {
+			e.preventDefault();
+			toggle(toggle_keys[key]);
+		} else if (ctrlKey(e) && key === "f") {
+			e.preventDefault();
+			widget.find.focus();
+			widget.find.select();
+		}
+	};
+
+	const onClick = (e: MouseEvent) => {
+		const button = (e.target as HTMLElement).closest("button");
+		switch (button?.dataset.action) {
+			case "previous": {
+				select(current - 1);
+				break;
+			}
+			case "next": {
+				select(current + 1);
+				break;
+			}
+			case "replace": {
+				replaceOne();
+				break;
+			}
+			case "replace-all": {
+				replaceAll();
+				break;
+			}
+			case "close": {
+				close();
+				break;
+			}
+			case "regex":
+			case "matchCase":
+			case "wholeWord": {
+				toggle(button.dataset.action as keyof FindOptions);
+				break;
+			}
+		}
+	};
+
+	const onFindInput = () => {
+		search(input.selectionStart);
+	};
+
+	widget.root.addEventListener("keydown", onWidgetKeydown);
+	widget.root.addEventListener("click", onClick);
+	widget.find.addEventListener("input", onFindInput);
+
+	const cleanup = [
+		editor.registerCommand("find.open", () => open(false)),
+		editor.registerCommand("find.openReplace", () => open(true)),
+		editor.registerCommand("find.next", () => select(current + 1)),
+		editor.registerCommand("find.previous", () => select(current - 1)),
+		editor.registerCommand("find.close", close),
+		editor.addKeybindings([
+			{ key: "mod+f", command: "find.open" },
+			{ key: "ctrl+h", mac: "cmd+alt+f", command: "find.openReplace" },
+			{ key: "f3", command: "find.next", when: "findWidgetVisible" },
+			{ key: "shift+f3", command: "find.previous", when: "findWidgetVisible" },
+			{ key: "escape", command: "find.close", when: "findWidgetVisible" },
+		]),
+		editor.onDidChangeContent(({ changes }) => {
+			if (!widget.root.hidden) {
+				search(changes[0].start);
+			}
+		}),
+		editor.onDidChangeOptions(({ changed }) => {
+			if (changed.readOnly !== void 0) {
+				render();
+			}
+		}),
+		injectStyle(doc, style),
+	];
+
+	return () => {
+		cleanup.forEach((fn) => fn());
+		editor.setContext("findWidgetVisible", false);
+		editor.setDecorations(decoration_owner, []);
+		widget.root.remove();
+	};
+}
+
+const toggle_keys: Record<string, keyof FindOptions> = {
+	c: "matchCase",
+	w: "wholeWord",
+	r: "regex",
+};
+
+function createWidget(doc: Document) {
+	const root = doc.createElement("div");
+	root.className = "shikicode find-widget";
+	root.innerHTML = `<div class="row">
+	<input class="find" type="text" placeholder="Find" aria-label="Find" spellcheck="false">
+	<button type="button" data-action="matchCase" title="Match Case (Alt+C)" aria-pressed="false">Aa</button>
+	<button type="button" data-action="wholeWord" title="Match Whole Word (Alt+W)" aria-pressed="false">ab</button>
+	<button type="button" data-action="regex" title="Use Regular Expression (Alt+R)" aria-pressed="false">.*</button>
+	<span class="count" aria-live="polite"></span>
+	<button type="button" data-action="previous" title="Previous Match (Shift+Enter)">↑</button>
+	<button type="button" data-action="next" title="Next Match (Enter)">↓</button>
+	<button type="button" data-action="close" title="Close (Escape)">×</button>
+</div>
+<div class="row">
+	<input class="replace" type="text" placeholder="Replace" aria-label="Replace" spellcheck="false">
+	<button type="button" data-action="replace" title="Replace (Enter)">Replace</button>
+	<button type="button" data-action="replace-all" title="Replace All (Ctrl+Alt+Enter)">All</button>
+</div>`;
+
+	const button = (action: string) => root.querySelector<HTMLButtonElement>(`button[data-action="${action}"]`)!;
+
+	return {
+		root,
+		find: root.querySelector<HTMLInputElement>("input.find")!,
+		replace: root.querySelector<HTMLInputElement>("input.replace")!,
+		replaceRow: root.querySelector<HTMLElement>(".row:last-child")!,
+		count: root.querySelector<HTMLElement>(".count")!,
+		replaceOne: button("replace"),
+		replaceAll: button("replace-all"),
+		toggles: {
+			regex: button("regex"),
+			matchCase: button("matchCase"),
+			wholeWord: button("wholeWord"),
+		},
+	};
+}
+
+/**
+ * Find every match of `query` in `value`.
+ * Throws a `SyntaxError` when `query` is an invalid regular expression.
+ */
+export function findMatches(value: string, query: string, options: FindOptions): RegExpMatchArray[] {
+	if (!query) {
+		return [];
+	}
+
+	const source = options.regex ? query : escapeRegExp(query);
+	const regex = new RegExp(source, options.matchCase ? "gm" : "gim");
+
+	const matches: RegExpMatchArray[] = [];
+	for (const match of value.matchAll(regex)) {
+		// an empty match can't be highlighted nor replaced meaningfully
+		if (match[0].length === 0) {
+			continue;
+		}
+		if (options.wholeWord && !isWholeWord(value, match.index!, match.index! + match[0].length)) {
+			continue;
+		}
+		matches.push(match);
+	}
+	return matches;
+}
+
+/**
+ * The text replacing `match`.
+ * With regular expressions, `$&`, `$1` and `$<name>` refer to the match and its groups, `$$` is a literal `$`.
+ */
+export function replacement(match: RegExpMatchArray, replace: string, options: FindOptions): string {
+	if (!options.regex) {
+		return replace;
+	}
+
+	return replace.replaceAll(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (text, reference: string, name?: string) => {
+		if (reference === "$") {
+			return "$";
+		}
+		if (reference === "&") {
+			return match[0];
+		}
+		if (name !== void 0) {
+			return match.groups?.[name] ?? "";
+		}
+
+		const index = Number(reference);
+		return index > 0 && index < match.length ? match[index] ?? "" : text;
+	});
+}
+
+const word_character = /[\p{L}\p{N}_]/u;
+
+function isWholeWord(value: string, start: number, end: number): boolean {
+	return (
+		!(word_character.test(value[start - 1] ?? "") && word_character.test(value[start])) &&
+		!(word_character.test(value[end] ?? "") && word_character.test(value[end - 1]))
+	);
+}
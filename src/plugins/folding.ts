@@ -0,0 +1,662 @@
+import type { ContentChange } from "../change.js";
+import { lineElement, lineIndexOf } from "../render.js";
+import { injectStyle } from "../style.js";
+import { findLine, type TokenInfo } from "../tokenize.js";
+import type { ClosingPair, ClosingPairsRules } from "./closing_pairs.js";
+import { visibleWidthLeadingSpace } from "./common.js";
+import type { EditorPlugin, IDisposable, ShikiCode } from "./index.js";
+import { isStringOrComment, languageBrackets } from "./matching_brackets.js";
+
+/**
+ * A range of lines which can be folded, the header line stays visible.
+ */
+export interface FoldingRegion {
+	readonly startLine: number;
+	readonly endLine: number;
+	/**
+	 * The offsets of the folded text, it starts at the end of the header line.
+	 */
+	readonly start: number;
+	readonly end: number;
+}
+
+/**
+ * The offsets of the folded text, as in `FoldingRegion`.
+ */
+export interface Fold {
+	readonly start: number;
+	readonly end: number;
+}
+
+interface FoldingActions {
+	fold(line: number): boolean;
+	unfold(line: number): boolean;
+	foldAll(): void;
+	unfoldAll(): void;
+}
+
+const folding_actions = new WeakMap<ShikiCode, FoldingActions>();
+
+function actionsOf(editor: ShikiCode, name: string): FoldingActions {
+	const actions = folding_actions.get(editor);
+	if (!actions) {
+		throw new Error(`${name} requires the createFolding plugin`);
+	}
+	return actions;
+}
+
+/**
+ * Fold the region starting at the line, the lines are counted from 0.
+ * Returns false when no region starts at the line.
+ */
+export function fold(editor: ShikiCode, line: number): boolean {
+	return actionsOf(editor, "fold").fold(line);
+}
+
+/**
+ * Unfold the regions folded at the line.
+ * Returns false when nothing is folded at the line.
+ */
+export function unfold(editor: ShikiCode, line: number): boolean {
+	return actionsOf(editor, "unfold").unfold(line);
+}
+
+export function foldAll(editor: ShikiCode): void {
+	actionsOf(editor, "foldAll").foldAll();
+}
+
+export function unfoldAll(editor: ShikiCode): void {
+	actionsOf(editor, "unfoldAll").unfoldAll();
+}
+
+const decoration_owner = "folding";
+const selection_owner = "folding-selection";
+
+const style = `.shikicode.output .line.foldable {
+	--fold-icon: "\\25BE";
+}
+
+.shikicode.output .line.folded {
+	--fold-icon: "\\25B8";
+}
+
+.shikicode.output.line-numbers .line:is(.foldable, .folded)::before {
+	padding-right: calc(2em - 2ch);
+	content: counter(shiki-line) " " var(--fold-icon);
+}
+
+.shikicode.output.line-numbers .line:is(.foldable, .folded)[data-line-number]::before {
+	content: attr(data-line-number) " " var(--fold-icon);
+}
+
+.shikicode.output:not(.line-numbers) .line:is(.foldable, .folded)::before {
+	content: var(--fold-icon);
+	color: var(--fg);
+}
+
+.shikicode.output .line.folded::after {
+	outline: 1px solid rgb(128 128 128 / 40%);
+	border-radius: 2px;
+	background-color: rgb(128 128 128 / 20%);
+	content: "⋯";
+}
+
+/* the code is laid out as a grid, which leaves out the \\n between the lines, so a folded line takes no room */
+.shikicode.output.folded code {
+	display: grid;
+	grid-template-columns: minmax(100%, max-content);
+}
+
+.shikicode.output.folded.word-wrap code {
+	grid-template-columns: 100%;
+}
+
+.shikicode.output .line.folded-line {
+	height: 0;
+	overflow: hidden;
+}
+
+/* the textarea can scroll past the folded lines it still holds */
+.shikicode.input.folded {
+	padding-bottom: var(--folding-padding);
+}
+
+/* the selection of the textarea is out of line with the output past a fold, so the output draws it */
+.shikicode.input.folded::selection {
+	background-color: transparent;
+}
+
+.shikicode.output .folded-selection {
+	background-color: rgb(128 128 128 / 30%);
+}
+`;
+
+/**
+ * A plugin that folds regions of lines, found by indentation and by the `brackets` of the language configuration.
+ * Click the chevrons in the gutter, or press `Ctrl+Shift+[` and `Ctrl+Shift+]` to fold and unfold,
+ * the `folding.fold` and `folding.unfold` commands, or use `fold` and `unfold` with the editor.
+ * The chevrons of the regions which can be folded show while the pointer is over the gutter,
+ * the regions are only found then, or by the commands.
+ *
+ * The textarea keeps the full text, only the output hides the folded lines.
+ * The textarea is scrolled down by the height of the folded lines above the caret, or above the line clicked,
+ * so the lines around the caret are lined up with the output.
+ * The caret skips the folded lines, and a fold is unfolded when the selection or an edit gets into it.
+ * There is nothing to fold in virtual mode, where every line has the same height.
+ */
+export function createFolding(...pairs_rule_list: readonly ClosingPairsRules[]): EditorPlugin {
+	const bracketsOf = languageBrackets(pairs_rule_list);
+
+	return (editor, options) => {
+		const { input, output } = editor;
+
+		const isVirtual = () => options.virtualRendering && options.wordWrap === "off";
+
+		// found again after the content or the options change
+		let cached_regions: FoldingRegion[] | undefined;
+		const regions = () => {
+			if (cached_regions) {
+				return cached_regions;
+			}
+			if (isVirtual()) {
+				return [];
+			}
+
+			// the scopes are looked up once per line with a bracket
+			const line_tokens = new Map<number, TokenInfo[]>();
+			const isIgnored = (offset: number, line: number) => {
+				let tokens = line_tokens.get(line);
+				if (!tokens) {
+					tokens = editor.getLineTokens(line);
+					line_tokens.set(line, tokens);
+				}
+				return isStringOrComment(tokens.find(({ end }) => offset < end)?.scopes || []);
+			};
+
+			const { value } = input;
+			cached_regions = foldingRegions(value, options.tabSize, bracketsOf(options.language), isIgnored).filter(
+				(region) => lastHiddenLine(value, region.end, region.endLine) > region.startLine,
+			);
+			return cached_regions;
+		};
+
+		let folds: Fold[] = [];
+		let hidden: [first: number, last: number][] = [];
+		// the line of the caret, or of the end of the selection which moves, while lines are hidden
+		let caret_line = 0;
+		// the height of the hidden lines above the lines which are lined up with the textarea
+		let offset = 0;
+		// the pointer is over the gutter
+		let show_chevrons = false;
+		let decorated = false;
+		let selection_decorated = false;
+
+		const caretLine = () => {
+			const { selectionStart, selectionEnd, selectionDirection } = input;
+			return lineOf(input.value, selectionDirection === "backward" ? selectionStart : selectionEnd);
+		};
+
+		// scroll the textarea so that the line is lined up with the output, the output stays where it is
+		const align = (line: number) => {
+			let above = 0;
+			let total = 0;
+			for (const [first, last] of hidden) {
+				for (let index = first; index <= last; index++) {
+					// the folded lines have no height, but their text still has
+					const height = lineElement(output, index)?.scrollHeight || 0;
+					total += height;
+					if (first <= line) {
+						above += height;
+					}
+				}
+			}
+
+			input.style.setProperty("--folding-padding", `${total + input.clientHeight}px`);
+			if (above !== offset) {
+				const { scrollTop } = output;
+				offset = above;
+				input.scrollTop = scrollTop + offset;
+			}
+			onScroll();
+		};
+
+		// runs after the scroll hook of the editor, which scrolls the output as far as the textarea
+		const onScroll = () => {
+			if (offset === 0) {
+				return;
+			}
+			const max = offset + Math.max(output.scrollHeight - output.clientHeight, 0);
+			const top = Math.min(Math.max(input.scrollTop, offset), max);
+			if (input.scrollTop !== top) {
+				input.scrollTop = top;
+			}
+			output.scrollTo(input.scrollLeft, top - offset);
+		};
+
+		let scheduled = false;
+		const update = () => {
+			if (isVirtual()) {
+				folds = [];
+			}
+			hidden = hiddenLines(input.value, folds);
+			input.classList.toggle("folded", hidden.length > 0);
+			output.classList.toggle("folded", hidden.length > 0);
+			if (scheduled) {
+				return;
+			}
+			scheduled = true;
+
+			queueMicrotask(() => {
+				scheduled = false;
+				// nothing to render while nothing is folded and the chevrons are hidden
+				if (!decorated && folds.length === 0 && !show_chevrons) {
+					updateSelection();
+					return;
+				}
+
+				const { value } = input;
+				const line_starts = lineStartsOf(value);
+				const folded_lines = new Set(folds.map((fold) => findLine(line_starts, fold.start)));
+				const decorations = [
+					...(show_chevrons ? regions() : [])
+						.filter((region) => !folded_lines.has(region.startLine))
+						.map((region) => ({ start: region.start, end: region.start, lineClassName: "foldable" })),
+					...folds.map((fold) => ({ start: fold.start, end: fold.start, lineClassName: "folded" })),
+					...hidden.map(([first, last]) => ({
+						start: line_starts[first],
+						end: line_starts[last] + value.slice(line_starts[last]).search(/\n|$/),
+						lineClassName: "folded-line",
+					})),
+				];
+				editor.setDecorations(decoration_owner, decorations);
+				decorated = decorations.length > 0;
+				updateSelection();
+			});
+		};
+
+		// the folds hiding the line
+		const foldsAt = (line: number) => {
+			const { value } = input;
+			const line_starts = lineStartsOf(value);
+			return folds.filter((fold) => {
+				const [first, last] = foldRange(value, line_starts, fold);
+				return first <= line && line <= last;
+			});
+		};
+
+		const foldRegions = (targets: readonly FoldingRegion[]) => {
+			const added = targets.filter((region) => !folds.some((fold) => fold.start === region.start));
+			if (added.length === 0) {
+				return;
+			}
+			if (hidden.length === 0) {
+				caret_line = caretLine();
+			}
+			folds = folds.concat(added.map(({ start, end }) => ({ start, end })));
+			update();
+
+			// the caret leaves the folded lines for the end of the outermost header
+			const [outermost] = foldsAt(caret_line).sort((a, b) => a.start - b.start);
+			if (outermost) {
+				input.setSelectionRange(outermost.start, outermost.start);
+			}
+		};
+
+		const unfoldFolds = (targets: readonly Fold[]) => {
+			folds = folds.filter((fold) => !targets.includes(fold));
+			update();
+		};
+
+		const actions: FoldingActions = {
+			fold(line) {
+				const region = regions().find((region) => region.startLine === line);
+				if (!region) {
+					return false;
+				}
+				foldRegions([region]);
+				return true;
+			},
+			unfold(line) {
+				const line_starts = lineStartsOf(input.value);
+				const targets = folds.filter((fold) => findLine(line_starts, fold.start) === line);
+				unfoldFolds(targets);
+				return targets.length > 0;
+			},
+			foldAll() {
+				// the outermost regions, the inner ones are hidden along with them
+				let end = -1;
+				foldRegions(
+					regions().filter((region) => {
+						if (region.start < end) {
+							return false;
+						}
+						end = region.end;
+						return true;
+					}),
+				);
+			},
+			unfoldAll() {
+				unfoldFolds(folds);
+			},
+		};
+		folding_actions.set(editor, actions);
+
+		// the caret skips the folded lines, or unfolds them when it gets in some other way, e.g. by a search
+		const updateSelection = () => {
+			if (hidden.length === 0 && offset === 0 && !selection_decorated) {
+				return;
+			}
+
+			const { value, selectionStart, selectionEnd, selectionDirection } = input;
+			const backward = selectionDirection === "backward";
+			const focus = backward ? selectionStart : selectionEnd;
+			const line_starts = lineStartsOf(value);
+			const line = findLine(line_starts, focus);
+
+			const target = skipHiddenLines(hidden, line, caret_line, line_starts.length);
+			if (target === void 0) {
+				unfoldFolds(foldsAt(line));
+			} else if (target !== line) {
+				const target_end = target + 1 < line_starts.length ? line_starts[target + 1] - 1 : value.length;
+				const moved = Math.min(line_starts[target] + focus - line_starts[line], target_end);
+				const anchor = backward ? selectionEnd : selectionStart;
+				const collapsed = selectionStart === selectionEnd;
+				const [start, end] = collapsed ? [moved, moved] : [Math.min(anchor, moved), Math.max(anchor, moved)];
+				input.setSelectionRange(start, end, moved < anchor ? "backward" : "forward");
+				return;
+			}
+
+			caret_line = line;
+			align(line);
+			const decorate = hidden.length > 0 && selectionStart !== selectionEnd;
+			if (decorate || selection_decorated) {
+				editor.setDecorations(
+					selection_owner,
+					decorate ? [{ start: selectionStart, end: selectionEnd, className: "folded-selection" }] : [],
+				);
+				selection_decorated = decorate;
+			}
+		};
+
+		const gutterRight = () =>
+			input.getBoundingClientRect().left + Number.parseFloat(getComputedStyle(input).paddingLeft);
+
+		const onMouseMove = (e: MouseEvent) => {
+			const in_gutter = e.clientX < gutterRight();
+			if (in_gutter !== show_chevrons) {
+				show_chevrons = in_gutter;
+				update();
+			}
+		};
+
+		const onMouseLeave = () => {
+			if (show_chevrons) {
+				show_chevrons = false;
+				update();
+			}
+		};
+
+		// the chevrons in the gutter, and the lines under the pointer are lined up before the textarea takes the click
+		const onMouseDown = (e: MouseEvent) => {
+			if (e.button !== 0) {
+				return;
+			}
+
+			let clicked: Element | undefined;
+			for (const line of output.querySelectorAll(".line:not(.folded-line)")) {
+				if (e.clientY < line.getBoundingClientRect().top) {
+					break;
+				}
+				clicked = line;
+			}
+			if (!clicked) {
+				return;
+			}
+
+			const index = lineIndexOf(clicked);
+			if (e.clientY <= clicked.getBoundingClientRect().bottom && e.clientX < gutterRight()) {
+				const folded = clicked.classList.contains("folded");
+				if (folded ? actions.unfold(index) : actions.fold(index)) {
+					e.preventDefault();
+					return;
+				}
+			}
+
+			if (hidden.length > 0) {
+				align(index);
+			}
+		};
+
+		const foldAtCaret = () => {
+			const line = caretLine();
+			// the innermost region containing the caret
+			const region = regions()
+				.filter((region) => region.startLine <= line && line <= region.endLine)
+				.pop();
+			if (region) {
+				actions.fold(region.startLine);
+			}
+		};
+
+		input.addEventListener("mousedown", onMouseDown);
+		input.addEventListener("mousemove", onMouseMove);
+		input.addEventListener("mouseleave", onMouseLeave);
+		input.addEventListener("scroll", onScroll);
+
+		const cleanup: IDisposable[] = [
+			editor.onDidChangeContent(({ changes }) => {
+				cached_regions = void 0;
+				// shown again once the pointer moves
+				show_chevrons = false;
+				folds = mapFolds(folds, changes);
+				update();
+			}),
+			editor.onDidChangeSelection(updateSelection),
+			editor.onDidChangeOptions(() => {
+				cached_regions = void 0;
+				update();
+			}),
+			editor.registerCommand("folding.fold", foldAtCaret),
+			editor.registerCommand("folding.unfold", () => actions.unfold(caretLine())),
+			editor.addKeybindings([
+				{ key: "mod+shift+[", command: "folding.fold" },
+				{ key: "mod+shift+]", command: "folding.unfold" },
+			]),
+			injectStyle(input.ownerDocument, style),
+		];
+
+		return () => {
+			input.removeEventListener("mousedown", onMouseDown);
+			input.removeEventListener("mousemove", onMouseMove);
+			input.removeEventListener("mouseleave", onMouseLeave);
+			input.removeEventListener("scroll", onScroll);
+			cleanup.forEach((fn) => fn());
+			folds = [];
+			hidden = [];
+			offset = 0;
+			input.classList.remove("folded");
+			output.classList.remove("folded");
+			input.style.removeProperty("--folding-padding");
+			editor.setDecorations(decoration_owner, []);
+			editor.setDecorations(selection_owner, []);
+			if (folding_actions.get(editor) === actions) {
+				folding_actions.delete(editor);
+			}
+		};
+	};
+}
+
+/**
+ * Find the foldable regions, at most one per header line.
+ * An indentation region covers the following lines which are indented deeper, or blank.
+ * A bracket region covers the lines up to the closing bracket, which stays visible.
+ * The region ending last wins when both start at the same line.
+ * The brackets for which `isIgnored` is true, e.g. in strings and comments, are skipped.
+ */
+export function foldingRegions(
+	value: string,
+	tabSize: number,
+	pairs: readonly ClosingPair[] = [],
+	isIgnored: (offset: number, line: number) => boolean = () => false,
+): FoldingRegion[] {
+	const lines = value.split("\n");
+	const line_starts = lineStartsOf(value);
+	const lineEnd = (line: number) => line_starts[line] + lines[line].length;
+
+	const regions = new Map<number, FoldingRegion>();
+	const add = (region: FoldingRegion) => {
+		const other = regions.get(region.startLine);
+		if (!other || region.endLine > other.endLine || (region.endLine === other.endLine && region.end < other.end)) {
+			regions.set(region.startLine, region);
+		}
+	};
+
+	// blank lines have no indentation
+	const indents = lines.map((line) => (line.trim() === "" ? -1 : visibleWidthLeadingSpace(line, tabSize)[0]));
+	for (let i = 0; i < lines.length; i++) {
+		if (indents[i] === -1) {
+			continue;
+		}
+		let end = i;
+		for (let j = i + 1; j < lines.length && (indents[j] === -1 || indents[j] > indents[i]); j++) {
+			if (indents[j] !== -1) {
+				end = j;
+			}
+		}
+		if (end > i) {
+			add({ startLine: i, endLine: end, start: lineEnd(i), end: lineEnd(end) });
+		}
+	}
+
+	const close_of = new Map(pairs);
+	const open_of = new Map(pairs.map(([open, close]) => [close, open]));
+	const stack: { open: string; line: number }[] = [];
+	let line = 0;
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+		if (char === "\n") {
+			line++;
+			continue;
+		}
+		if ((!close_of.has(char) && !open_of.has(char)) || isIgnored(i, line)) {
+			continue;
+		}
+		if (close_of.has(char)) {
+			stack.push({ open: char, line });
+			continue;
+		}
+
+		// unmatched brackets in between are skipped
+		const index = stack.findLastIndex(({ open }) => open === open_of.get(char));
+		if (index === -1) {
+			continue;
+		}
+		const start_line = stack[index].line;
+		stack.length = index;
+		if (line > start_line) {
+			add({ startLine: start_line, endLine: line, start: lineEnd(start_line), end: i });
+		}
+	}
+
+	return Array.from(regions.values()).sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * The lines hidden by the folds, as sorted ranges of lines, a fold nested in another is part of its range.
+ * A fold hides the lines after its header up to the line of its end, unless text follows the end, e.g. a bracket.
+ */
+export function hiddenLines(value: string, folds: readonly Fold[]): [first: number, last: number][] {
+	if (folds.length === 0) {
+		return [];
+	}
+	const line_starts = lineStartsOf(value);
+	const ranges = folds
+		.map((fold) => foldRange(value, line_starts, fold))
+		.filter(([first, last]) => first <= last)
+		.sort((a, b) => a[0] - b[0]);
+
+	const merged: [number, number][] = [];
+	for (const range of ranges) {
+		const previous = merged.at(-1);
+		if (previous && range[0] <= previous[1] + 1) {
+			previous[1] = Math.max(previous[1], range[1]);
+		} else {
+			merged.push(range);
+		}
+	}
+	return merged;
+}
+
+function foldRange(value: string, line_starts: readonly number[], { start, end }: Fold): [number, number] {
+	return [findLine(line_starts, start) + 1, lastHiddenLine(value, end, findLine(line_starts, end))];
+}
+
+function lastHiddenLine(value: string, end: number, end_line: number): number {
+	return end === value.length || value[end] === "\n" ? end_line : end_line - 1;
+}
+
+/**
+ * Move the folds along with the changes, in the order they were applied.
+ * A fold is dropped when its text is changed, or removed at its end,
+ * but the text typed at its end, e.g. before a closing bracket, is kept out.
+ */
+export function mapFolds(folds: readonly Fold[], changes: readonly ContentChange[]): Fold[] {
+	let mapped = folds.slice();
+	for (const change of changes) {
+		const delta = change.text.length - (change.end - change.start);
+		mapped = mapped
+			.filter(
+				(fold) =>
+					change.end <= fold.start ||
+					change.start > fold.end ||
+					(change.start === fold.end && change.end === fold.end),
+			)
+			.map((fold) => ({
+				start: fold.start >= change.end ? fold.start + delta : fold.start,
+				end: fold.end > change.start ? fold.end + delta : fold.end,
+			}));
+	}
+	return mapped;
+}
+
+/**
+ * The line the caret moves to when it is put on the line, coming from the line `from`.
+ * The caret skips the hidden lines when it comes from right above or below them,
+ * and stays on the line above when no line follows them.
+ * Returns `undefined` when it gets into them some other way, the lines should be unfolded.
+ */
+export function skipHiddenLines(
+	hidden: readonly (readonly [first: number, last: number])[],
+	line: number,
+	from: number,
+	lineCount: number,
+): number | undefined {
+	const range = hidden.find(([first, last]) => first <= line && line <= last);
+	if (!range) {
+		return line;
+	}
+	const [first, last] = range;
+	if (from === first - 1) {
+		return last + 1 < lineCount ? last + 1 : from;
+	}
+	if (from === last + 1) {
+		return first - 1;
+	}
+	return void 0;
+}
+
+function lineOf(value: string, offset: number): number {
+	let line = 0;
+	for (let i = value.indexOf("\n"); i !== -1 && i < offset; i = value.indexOf("\n", i + 1)) {
+		line++;
+	}
+	return line;
+}
+
+function lineStartsOf(value: string): number[] {
+	const line_starts = [0];
+	for (let i = value.indexOf("\n"); i !== -1; i = value.indexOf("\n", i + 1)) {
+		line_starts.push(i + 1);
+	}
+	return line_starts;
+}
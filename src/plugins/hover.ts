@@ -0,0 +1,306 @@
+import { renderTokens } from "../render.js";
+import { injectStyle } from "../style.js";
+import type { TokenInfo, TokenizedLine, TokenizeOptions } from "../tokenize.js";
+import { offsetAt, offsetRect } from "./common.js";
+import type { EditorPlugin, IDisposable } from "./index.js";
+import {
+	createProviderRegistry,
+	default_word_pattern,
+	getLanguageConfiguration,
+} from "./language_configuration.js";
+
+/**
+ * Plain text, or a block of code highlighted with the highlighter and the theme of the editor.
+ */
+export type HoverContent = string | { readonly language: string; readonly value: string };
+
+export interface Hover {
+	readonly contents: readonly HoverContent[];
+	/**
+	 * The text the hover is about, the hover stays while the pointer rests over it.
+	 * The word under the pointer when omitted.
+	 */
+	readonly range?: { readonly start: number; readonly end: number };
+}
+
+export interface HoverContext {
+	readonly value: string;
+	readonly language: string;
+	/**
+	 * The offset of the character under the pointer.
+	 */
+	readonly offset: number;
+	/**
+	 * The word under the pointer, by the word pattern of the language.
+	 */
+	readonly word: { readonly start: number; readonly end: number; readonly text: string } | undefined;
+	/**
+	 * The token under the pointer with its TextMate scopes, `undefined` while the line is being highlighted.
+	 * The scopes are only tokenized once a provider first reads it, the document is tokenized again then.
+	 */
+	readonly token: TokenInfo | undefined;
+}
+
+export interface HoverProvider {
+	provideHover(context: HoverContext): Hover | undefined | Promise<Hover | undefined>;
+}
+
+const providers = createProviderRegistry<HoverProvider>();
+
+/**
+ * Register a provider of hovers for a language, or for every language with `*`.
+ * Dispose to remove the provider.
+ */
+export function registerHoverProvider(language: string, provider: HoverProvider): IDisposable {
+	return providers.register(language, provider);
+}
+
+export interface HoverOptions {
+	/**
+	 * The time in milliseconds the pointer rests over the text before the hover shows, defaults to 300.
+	 */
+	readonly delay?: number;
+}
+
+const style = `.shikicode.hover-widget {
+	position: absolute;
+	z-index: 1;
+	box-shadow: 0 2px 8px rgb(0 0 0 / 36%);
+	border: 1px solid rgb(128 128 128 / 40%);
+	border-radius: 4px;
+	background-color: var(--bg);
+	max-width: 40em;
+	max-height: 20em;
+	overflow: auto;
+	color: var(--fg);
+	font-size: 13px;
+	font-family: sans-serif;
+	line-height: normal;
+}
+
+.shikicode.hover-widget[hidden] {
+	display: none;
+}
+
+.shikicode.hover-widget > * + * {
+	border-top: 1px solid rgb(128 128 128 / 40%);
+}
+
+.shikicode.hover-widget .hover-text {
+	padding: 4px 8px;
+	white-space: pre-wrap;
+}
+
+.shikicode.hover-widget .code-block {
+	margin: 0;
+	padding: 4px 8px;
+	tab-size: var(--tab-size);
+}
+
+.shikicode.hover-widget .code-block, .shikicode.hover-widget .code-block code {
+	font-family: var(--font-family, monospace);
+}
+`;
+
+/**
+ * A plugin that shows the hovers of the providers registered with `registerHoverProvider`,
+ * when the pointer rests over the text.
+ *
+ * The hover stays while the pointer is over its range or over the hover itself, so its text can be selected.
+ * The code blocks are highlighted with the highlighter of the editor, in a worker when the editor uses one.
+ */
+export function hookHover(hover_options: HoverOptions = {}): EditorPlugin {
+	const { delay = 300 } = hover_options;
+
+	return (editor, options) => {
+		const { input, container } = editor;
+		const doc = input.ownerDocument;
+
+		const widget = doc.createElement("div");
+		widget.className = "shikicode hover-widget";
+		widget.hidden = true;
+		container.append(widget);
+
+		// the range of the shown hover
+		let shown: { readonly start: number; readonly end: number } | undefined;
+		// the latest request, older results are dropped
+		let request = 0;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		// the tokenizers of the code blocks waiting for the worker
+		let pending: IDisposable[] = [];
+
+		const hide = () => {
+			request++;
+			clearTimeout(timer);
+			shown = void 0;
+			widget.hidden = true;
+			widget.replaceChildren();
+			pending.forEach((fn) => fn());
+			pending = [];
+		};
+
+		const textBlock = (text: string) => {
+			const block = doc.createElement("div");
+			block.className = "hover-text";
+			block.textContent = text;
+			return block;
+		};
+
+		const codeBlock = ({ language, value }: { readonly language: string; readonly value: string }) => {
+			const pre = doc.createElement("pre");
+			pre.className = "code-block";
+			const code = doc.createElement("code");
+			pre.append(code);
+
+			const render = (lines: readonly TokenizedLine[]) => {
+				code.innerHTML = lines
+					.map((line) => `<span class="line">${renderTokens(line.tokens)}</span>`)
+					.join("\n");
+			};
+
+			const tokenize_options: TokenizeOptions = {
+				lang: (editor.worker || editor.highlighter).getLoadedLanguages().includes(language) ? language : "text",
+				theme: options.theme,
+			};
+			// the lines are plain text until the worker responds
+			const tokenizer = editor.createTokenizer(() => render(tokenizer.lines));
+			render(tokenizer.reset(value, tokenize_options).lines);
+			pending.push(() => tokenizer.dispose());
+			return pre;
+		};
+
+		const show = (range: NonNullable<Hover["range"]>, contents: readonly HoverContent[]) => {
+			const rect = offsetRect(editor, range.start);
+			if (!rect) {
+				return;
+			}
+
+			widget.replaceChildren(
+				...contents.map((content) => (typeof content === "string" ? textBlock(content) : codeBlock(content))),
+			);
+			const container_rect = container.getBoundingClientRect();
+			widget.style.left = `${rect.left - container_rect.left}px`;
+			widget.style.top = `${rect.bottom - container_rect.top}px`;
+			// the code blocks are outside of the input and the output which set it
+			widget.style.setProperty("--tab-size", options.tabSize.toString());
+			widget.hidden = false;
+			shown = range;
+		};
+
+		const update = async (x: number, y: number) => {
+			const offset = offsetAt(editor, x, y);
+			if (offset === void 0) {
+				hide();
+				return;
+			}
+			if (shown && offset >= shown.start && offset < shown.end) {
+				return;
+			}
+			hide();
+
+			const { value } = input;
+			const language = options.language;
+			const word_pattern = getLanguageConfiguration(language)?.wordPattern || default_word_pattern;
+			const word = wordAt(value, offset, word_pattern);
+			let token: TokenInfo | undefined | null = null;
+			const context: HoverContext = {
+				value,
+				language,
+				offset,
+				word,
+				get token() {
+					if (token === null) {
+						token = editor.getTokenAt(offset);
+					}
+					return token;
+				},
+			};
+
+			const id = ++request;
+			// a failing provider leaves out its hover only
+			const results = await Promise.allSettled(
+				providers
+					.providersOf(language)
+					.map((provider) => Promise.resolve().then(() => provider.provideHover(context))),
+			);
+			if (id !== request || input.value !== value) {
+				return;
+			}
+
+			const hovers = results.flatMap((result) =>
+				result.status === "fulfilled" && result.value ? result.value : [],
+			);
+			const contents = hovers.flatMap((hover) => hover.contents);
+			if (contents.length > 0) {
+				const range = hovers.find((hover) => hover.range)?.range || word || { start: offset, end: offset + 1 };
+				show(range, contents);
+			}
+		};
+
+		const onMouseMove = (e: MouseEvent) => {
+			clearTimeout(timer);
+			// no hover while selecting with the pointer
+			if (e.buttons !== 0 || providers.providersOf(options.language).length === 0) {
+				hide();
+				return;
+			}
+			const { clientX, clientY } = e;
+			timer = setTimeout(() => update(clientX, clientY), delay);
+		};
+
+		const onMouseLeave = (e: MouseEvent) => {
+			clearTimeout(timer);
+			if (!widget.contains(e.relatedTarget as Node | null)) {
+				hide();
+			}
+		};
+
+		const onWidgetMouseLeave = (e: MouseEvent) => {
+			if (e.relatedTarget !== input) {
+				hide();
+			}
+		};
+
+		input.addEventListener("mousemove", onMouseMove);
+		input.addEventListener("mouseleave", onMouseLeave);
+		input.addEventListener("mousedown", hide);
+		input.addEventListener("keydown", hide);
+		input.addEventListener("scroll", hide);
+		widget.addEventListener("mouseleave", onWidgetMouseLeave);
+
+		const cleanup = [
+			editor.onDidChangeContent(hide),
+			editor.onDidChangeOptions(hide),
+			injectStyle(doc, style),
+		];
+
+		return () => {
+			hide();
+			input.removeEventListener("mousemove", onMouseMove);
+			input.removeEventListener("mouseleave", onMouseLeave);
+			input.removeEventListener("mousedown", hide);
+			input.removeEventListener("keydown", hide);
+			input.removeEventListener("scroll", hide);
+			cleanup.forEach((fn) => fn());
+			widget.remove();
+		};
+	};
+}
+
+/**
+ * The word containing the character at `offset`, by the word pattern of the language.
+ */
+export function wordAt(value: string, offset: number, word_pattern: RegExp = default_word_pattern) {
+	const line_start = value.lastIndexOf("\n", offset - 1) + 1;
+	const line_end = value.indexOf("\n", offset);
+	const pattern = new RegExp(word_pattern.source, word_pattern.flags.replace("g", "") + "g");
+
+	for (const match of value.slice(line_start, line_end === -1 ? value.length : line_end).matchAll(pattern)) {
+		const start = line_start + match.index!;
+		const end = start + match[0].length;
+		if (start <= offset && offset < end) {
+			return { start, end, text: match[0] };
+		}
+	}
+	return void 0;
+}
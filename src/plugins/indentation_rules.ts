@@ -0,0 +1,203 @@
+import { escapeRegExp } from "./common.js";
+
+/**
+ * Rules in the style of VS Code `indentationRules`, tested against whole lines.
+ */
+export interface IndentationRules {
+	/**
+	 * A line matching this pattern indents the lines after it.
+	 */
+	readonly increaseIndentPattern?: RegExp;
+	/**
+	 * A line matching this pattern is outdented, the line is outdented as soon as it is typed to match.
+	 */
+	readonly decreaseIndentPattern?: RegExp;
+}
+
+/**
+ * - `none` keeps the indentation of the line;
+ * - `indent` indents the new line;
+ * - `indentOutdent` indents the new line, and moves the text after the caret to another line with the old indentation;
+ * - `outdent` outdents the new line.
+ */
+export type IndentAction = "none" | "indent" | "indentOutdent" | "outdent";
+
+/**
+ * A rule in the style of VS Code `onEnterRules`, the first matching rule decides how `Enter` indents.
+ */
+export interface OnEnterRule {
+	/**
+	 * Tested against the text of the line before the caret.
+	 */
+	readonly beforeText: RegExp;
+	/**
+	 * Tested against the text of the line after the caret.
+	 */
+	readonly afterText?: RegExp;
+	/**
+	 * Tested against the text of the line above.
+	 */
+	readonly previousLineText?: RegExp;
+	readonly action: {
+		readonly indent: IndentAction;
+		/**
+		 * Inserted after the indentation of the new line, e.g. ` * ` in a JSDoc block.
+		 */
+		readonly appendText?: string;
+		/**
+		 * The number of characters removed from the end of the indentation of the new line.
+		 */
+		readonly removeText?: number;
+	};
+}
+
+export interface LanguageIndentationRules {
+	readonly language: string;
+	readonly indentationRules?: IndentationRules;
+	readonly onEnterRules?: readonly OnEnterRule[];
+}
+
+const default_brackets: readonly (readonly [open: string, close: string])[] = [
+	["(", ")"],
+	["[", "]"],
+	["{", "}"],
+];
+
+/**
+ * Pressing `Enter` after an open bracket indents, between a pair of brackets the closing one goes to its own line.
+ * These rules apply after the rules of the language, with `(`, `[` and `{` when the language has no brackets.
+ */
+export function bracketOnEnterRules(
+	brackets: readonly (readonly [open: string, close: string])[] = default_brackets,
+): OnEnterRule[] {
+	if (brackets.length === 0) {
+		return [];
+	}
+	const rules: OnEnterRule[] = brackets.map(([open, close]) => ({
+		beforeText: new RegExp(`${escapeRegExp(open)}$`),
+		afterText: new RegExp(`^${escapeRegExp(close)}`),
+		action: { indent: "indentOutdent" },
+	}));
+	rules.push({
+		beforeText: new RegExp(`(?:${brackets.map(([open]) => escapeRegExp(open)).join("|")})$`),
+		action: { indent: "indent" },
+	});
+	return rules;
+}
+
+const c_lang_indentation_rules: IndentationRules = {
+	increaseIndentPattern: /^((?!\/\/).)*(\{[^}"'`]*|\([^)"'`]*|\[[^\]"'`]*)$/,
+	decreaseIndentPattern: /^((?!.*?\/\*).*\*\/)?\s*[}\]].*$/,
+};
+
+const c_lang_on_enter_rules: readonly OnEnterRule[] = [
+	// /** | */
+	{
+		beforeText: /^\s*\/\*\*(?!\/)([^*]|\*(?!\/))*$/,
+		afterText: /^\s*\*\/$/,
+		action: { indent: "indentOutdent", appendText: " * " },
+	},
+	// /** |
+	{
+		beforeText: /^\s*\/\*\*(?!\/)([^*]|\*(?!\/))*$/,
+		action: { indent: "none", appendText: " * " },
+	},
+	//  * |
+	{
+		beforeText: /^(\t|[ ])*[ ]\*([ ]([^*]|\*(?!\/))*)?$/,
+		previousLineText: /(?=^(\s*(\/\*\*|\*)).*)(?=(?!(\s*\*\/)))/,
+		action: { indent: "none", appendText: "* " },
+	},
+	//  */|
+	{
+		beforeText: /^(\t|[ ])*[ ]\*\/\s*$/,
+		action: { indent: "none", removeText: 1 },
+	},
+	// // a comment split by the caret |continues
+	{
+		beforeText: /^\s*\/\/.*$/,
+		afterText: /^(?!\s*$).+/,
+		action: { indent: "none", appendText: "// " },
+	},
+];
+
+const c_lang_rules = (language: string): LanguageIndentationRules => ({
+	language,
+	indentationRules: c_lang_indentation_rules,
+	onEnterRules: c_lang_on_enter_rules,
+});
+
+const html_void_elements = "area|base|br|col|embed|hr|img|input|keygen|link|menuitem|meta|param|source|track|wbr";
+
+const html_rules = (language: string): LanguageIndentationRules => ({
+	language,
+	indentationRules: {
+		decreaseIndentPattern: /^\s*(<\/(?!html)[-_.A-Za-z0-9]+\b[^>]*>|-->|\})/,
+	},
+	onEnterRules: [
+		// <div>|</div>
+		{
+			beforeText: new RegExp(
+				`<(?!(?:${html_void_elements}))([_:\\w][_:\\w\\-.\\d]*)(?:(?:[^'"/>]|"[^"]*"|'[^']*')*?(?!\\/)>)[^<]*$`,
+				"i",
+			),
+			afterText: /^<\/([_:\w][_:\w\-.\d]*)\s*>/i,
+			action: { indent: "indentOutdent" },
+		},
+		// <div>|
+		{
+			beforeText: new RegExp(
+				`<(?!(?:${html_void_elements}))(\\w[\\w\\d]*)(?:(?:[^'"/>]|"[^"]*"|'[^']*')*?(?!\\/)>)[^<]*$`,
+				"i",
+			),
+			action: { indent: "indent" },
+		},
+	],
+});
+
+export const default_indentation_rules: readonly LanguageIndentationRules[] = [
+	c_lang_rules("c"),
+	c_lang_rules("cpp"),
+	c_lang_rules("csharp"),
+	c_lang_rules("css"),
+	c_lang_rules("dart"),
+	c_lang_rules("go"),
+	c_lang_rules("java"),
+	c_lang_rules("javascript"),
+	c_lang_rules("json"),
+	c_lang_rules("jsx"),
+	c_lang_rules("php"),
+	c_lang_rules("rust"),
+	c_lang_rules("tsx"),
+	c_lang_rules("typescript"),
+	html_rules("html"),
+	html_rules("vue"),
+	html_rules("xml"),
+	{
+		language: "python",
+		indentationRules: {
+			increaseIndentPattern:
+				/^\s*(?:def|class|for|if|elif|else|while|try|with|finally|except|async|match|case)\b.*:\s*(#.*)?$/,
+			decreaseIndentPattern: /^\s*(?:elif|else|except|finally)\b.*:\s*(#.*)?$/,
+		},
+	},
+	{
+		language: "ruby",
+		indentationRules: {
+			increaseIndentPattern: new RegExp(
+				"^\\s*((begin|class|(private|protected)\\s+def|def|else|elsif|ensure|for|if|module|rescue" +
+					"|unless|until|when|in|while|case)|([^#]*\\sdo\\b)|([^#]*=\\s*(case|if|unless)))\\b" +
+					"([^#{;]|(\"|'|\\/).*\\4)*(#.*)?$",
+			),
+			decreaseIndentPattern:
+				/^\s*([}\]]([,)]?\s*(#|$)|\.[a-zA-Z_]\w*\b)|(end|rescue|ensure|else|elsif|when|in)\b)/,
+		},
+	},
+	{
+		language: "yaml",
+		indentationRules: {
+			increaseIndentPattern: /^\s*.*(:|-) ?(&\w+)?(\{[^}"']*|\([^)"']*)?$/,
+			decreaseIndentPattern: /^\s+\}$/,
+		},
+	},
+];
@@ -7,7 +7,19 @@ export type EditorPlugin = {
 	(editor: ShikiCode, options: EditorOptions): IDisposable;
 };
 
+export type { Action, PatchAction, SelectAction } from "./common.js";
+
 export * from "./autoload.js";
 export * from "./closing_pairs.js";
 export * from "./comments.js";
+export * from "./completion.js";
+export * from "./find_replace.js";
+export * from "./folding.js";
+export * from "./hover.js";
+export * from "./indentation_rules.js";
+export * from "./language_configuration.js";
+export * from "./matching_brackets.js";
+export * from "./minimap.js";
+export * from "./selection_highlight.js";
+export * from "./snippet.js";
 export * from "./tab.js";
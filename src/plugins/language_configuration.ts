@@ -0,0 +1,260 @@
+import { default_pairs, toClosingPair, type AutoClosingPair, type ClosingPair } from "./closing_pairs.js";
+import type { IDisposable } from "./index.js";
+import {
+	default_indentation_rules,
+	type IndentAction,
+	type IndentationRules,
+	type OnEnterRule,
+} from "./indentation_rules.js";
+
+/**
+ * What the plugins know about a language, in the shape of VS Code `language-configuration.json`.
+ */
+export interface LanguageConfiguration {
+	readonly comments?: {
+		readonly lineComment?: string;
+		readonly blockComment?: readonly [open: string, close: string];
+	};
+	/**
+	 * The brackets matched, folded and indented by the plugins.
+	 */
+	readonly brackets?: readonly ClosingPair[];
+	/**
+	 * The pairs closed as the open text is typed.
+	 */
+	readonly autoClosingPairs?: readonly (ClosingPair | AutoClosingPair)[];
+	/**
+	 * The characters after the caret which let a pair close.
+	 */
+	readonly autoCloseBefore?: string;
+	/**
+	 * The pairs surrounding the selection as the open character is typed, the `autoClosingPairs` when omitted.
+	 */
+	readonly surroundingPairs?: readonly (ClosingPair | AutoClosingPair)[];
+	readonly indentationRules?: IndentationRules;
+	readonly onEnterRules?: readonly OnEnterRule[];
+	/**
+	 * What a word is, e.g. for the completion.
+	 */
+	readonly wordPattern?: RegExp;
+}
+
+const configurations = new Map<string, LanguageConfiguration>();
+
+/**
+ * Register the configuration of a language, replacing the built-in configuration or the one registered before.
+ * The plugins look up the configuration of `options.language` as they need it, so it applies to the editors at once.
+ * Dispose to restore the previous configuration.
+ */
+export function registerLanguageConfiguration(language: string, configuration: LanguageConfiguration): IDisposable {
+	const previous = configurations.get(language);
+	configurations.set(language, configuration);
+
+	return () => {
+		if (configurations.get(language) !== configuration) {
+			return;
+		}
+		if (previous) {
+			configurations.set(language, previous);
+		} else {
+			configurations.delete(language);
+		}
+	};
+}
+
+/**
+ * The registered or built-in configuration of a language.
+ */
+export function getLanguageConfiguration(language: string): LanguageConfiguration | undefined {
+	return configurations.get(language) || builtinConfigurations().get(language);
+}
+
+/**
+ * What a word is when the language has no `wordPattern`.
+ */
+export const default_word_pattern = /[\p{L}\p{N}_]+/u;
+
+/**
+ * The providers of a plugin by language, e.g. of completion items or hovers.
+ */
+export interface ProviderRegistry<T> {
+	/**
+	 * Register a provider for a language, or for every language with `*`.
+	 * Dispose to remove the provider.
+	 */
+	register(language: string, provider: T): IDisposable;
+	/**
+	 * The providers of a language, followed by the providers of every language.
+	 */
+	providersOf(language: string): T[];
+}
+
+export function createProviderRegistry<T>(): ProviderRegistry<T> {
+	const providers = new Map<string, T[]>();
+
+	return {
+		register(language, provider) {
+			const list = providers.get(language) || [];
+			providers.set(language, list.concat(provider));
+
+			return () => {
+				const list = providers.get(language)?.filter((p) => p !== provider) || [];
+				if (list.length > 0) {
+					providers.set(language, list);
+				} else {
+					providers.delete(language);
+				}
+			};
+		},
+		providersOf(language) {
+			return (providers.get(language) || []).concat(providers.get("*") || []);
+		},
+	};
+}
+
+let builtin_configurations: Map<string, LanguageConfiguration> | undefined;
+
+// built on first use, the modules holding the built-in rules import this module too
+function builtinConfigurations(): Map<string, LanguageConfiguration> {
+	if (builtin_configurations) {
+		return builtin_configurations;
+	}
+
+	const builtin = new Map<string, LanguageConfiguration>();
+	const merge = (language: string, configuration: LanguageConfiguration) => {
+		builtin.set(language, { ...builtin.get(language), ...configuration });
+	};
+
+	for (const { language, pairs } of default_pairs) {
+		merge(language, {
+			brackets: pairs
+				.map(toClosingPair)
+				.filter(([open, close]) => open !== close && open.length === 1 && close.length === 1),
+			autoClosingPairs: pairs,
+		});
+	}
+	for (const { language, ...rules } of default_indentation_rules) {
+		merge(language, rules);
+	}
+	for (const [languages, comments] of default_comments) {
+		for (const language of languages) {
+			merge(language, { comments });
+		}
+	}
+
+	return (builtin_configurations = builtin);
+}
+
+const default_comments: readonly [languages: string[], comments: LanguageConfiguration["comments"]][] = [
+	[
+		["c", "cpp", "csharp", "dart", "go", "java", "javascript", "jsx", "php", "rust", "tsx", "typescript"],
+		{ lineComment: "//", blockComment: ["/*", "*/"] },
+	],
+	[["css"], { blockComment: ["/*", "*/"] }],
+	[["html", "vue", "xml"], { blockComment: ["<!--", "-->"] }],
+	[["python"], { lineComment: "#", blockComment: ['"""', '"""'] }],
+	[["ruby"], { lineComment: "#", blockComment: ["=begin", "=end"] }],
+	[["sql"], { lineComment: "--", blockComment: ["/*", "*/"] }],
+	[["yaml"], { lineComment: "#" }],
+];
+
+/**
+ * A pattern in `language-configuration.json`, a string or the pattern and its flags.
+ */
+type JSONPattern = string | { readonly pattern: string; readonly flags?: string };
+
+/**
+ * A pair in `language-configuration.json`, the object form may list where the pair is not closed.
+ */
+type JSONPair = readonly [open: string, close: string] | AutoClosingPair;
+
+/**
+ * The content of a VS Code `language-configuration.json` file.
+ */
+export interface JSONLanguageConfiguration {
+	readonly comments?: {
+		readonly lineComment?: string | { readonly comment: string };
+		readonly blockComment?: readonly [open: string, close: string];
+	};
+	readonly brackets?: readonly (readonly [open: string, close: string])[];
+	readonly autoClosingPairs?: readonly JSONPair[];
+	readonly autoCloseBefore?: string;
+	readonly surroundingPairs?: readonly JSONPair[];
+	readonly indentationRules?: {
+		readonly increaseIndentPattern?: JSONPattern;
+		readonly decreaseIndentPattern?: JSONPattern;
+	};
+	readonly onEnterRules?: readonly {
+		readonly beforeText: JSONPattern;
+		readonly afterText?: JSONPattern;
+		readonly previousLineText?: JSONPattern;
+		readonly action: {
+			readonly indent: IndentAction;
+			readonly appendText?: string;
+			readonly removeText?: number;
+		};
+	}[];
+	readonly wordPattern?: JSONPattern;
+}
+
+/**
+ * Read a VS Code `language-configuration.json` file, given as text or parsed.
+ * The text may contain comments and trailing commas, as these files often do.
+ * The settings which have no counterpart in `LanguageConfiguration` are left out.
+ */
+export function parseLanguageConfiguration(json: string | JSONLanguageConfiguration): LanguageConfiguration {
+	const source: JSONLanguageConfiguration = typeof json === "string" ? JSON.parse(stripJSONComments(json)) : json;
+
+	const comments = source.comments && {
+		lineComment:
+			typeof source.comments.lineComment === "object"
+				? source.comments.lineComment.comment
+				: source.comments.lineComment,
+		blockComment: source.comments.blockComment,
+	};
+
+	const indentation_rules = source.indentationRules && {
+		increaseIndentPattern: toRegExp(source.indentationRules.increaseIndentPattern),
+		decreaseIndentPattern: toRegExp(source.indentationRules.decreaseIndentPattern),
+	};
+
+	const on_enter_rules = source.onEnterRules?.map(
+		(rule): OnEnterRule => ({
+			beforeText: toRegExp(rule.beforeText)!,
+			afterText: toRegExp(rule.afterText),
+			previousLineText: toRegExp(rule.previousLineText),
+			action: rule.action,
+		}),
+	);
+
+	return {
+		comments,
+		brackets: source.brackets,
+		autoClosingPairs: source.autoClosingPairs,
+		autoCloseBefore: source.autoCloseBefore,
+		surroundingPairs: source.surroundingPairs,
+		indentationRules: indentation_rules,
+		onEnterRules: on_enter_rules,
+		wordPattern: toRegExp(source.wordPattern),
+	};
+}
+
+function toRegExp(pattern: JSONPattern | undefined): RegExp | undefined {
+	if (pattern === void 0) {
+		return void 0;
+	}
+	if (typeof pattern === "string") {
+		return new RegExp(pattern);
+	}
+	return new RegExp(pattern.pattern, pattern.flags);
+}
+
+/**
+ * Remove the comments and the trailing commas of JSON text, the strings are kept as they are.
+ */
+export function stripJSONComments(text: string): string {
+	return text.replaceAll(
+		/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\/|,(?=\s*(?:\/\/[^\n]*\n\s*|\/\*[\s\S]*?\*\/\s*)*[\]}])/g,
+		(_, string: string | undefined) => string || "",
+	);
+}
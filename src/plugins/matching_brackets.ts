@@ -0,0 +1,253 @@
+import { injectStyle } from "../style.js";
+import { toClosingPair, type ClosingPair, type ClosingPairsRules } from "./closing_pairs.js";
+import { revealOffset } from "./common.js";
+import type { EditorPlugin } from "./index.js";
+import { getLanguageConfiguration } from "./language_configuration.js";
+
+/**
+ * The offsets of an open bracket and its closing bracket.
+ */
+export interface BracketMatch {
+	readonly open: number;
+	readonly close: number;
+}
+
+/**
+ * Whether the character at an offset is part of a string or a comment.
+ */
+export type IgnoreBracket = (offset: number) => boolean;
+
+/**
+ * Look up the brackets of a language, the pairs given for it or the `brackets` of its language configuration,
+ * which are single characters with different open and close characters.
+ */
+export function languageBrackets(pairs_rule_list: readonly ClosingPairsRules[]): (language: string) => ClosingPair[] {
+	const overrides = new Map(pairs_rule_list.map(({ language, pairs }) => [language, pairs]));
+	return (language) =>
+		(overrides.get(language)?.map(toClosingPair) || getLanguageConfiguration(language)?.brackets || []).filter(
+			([open, close]) => open !== close && open.length === 1 && close.length === 1,
+		);
+}
+
+const decoration_owner = "matching-brackets";
+
+const style = `.shikicode.output .bracket-match {
+	outline: 1px solid rgb(128 128 128 / 60%);
+	background-color: rgb(128 128 128 / 20%);
+}
+`;
+
+/**
+ * A plugin that highlights the bracket matching the one next to the caret.
+ * `Ctrl+Shift+\` jumps to the matching bracket, or to the closing bracket enclosing the caret,
+ * the `matchingBrackets.jump` command.
+ *
+ * The brackets are the `brackets` of the language configuration, or the pairs given here for their language,
+ * with different open and close characters.
+ * Brackets in strings and comments are ignored, by the scopes of the rendered tokens.
+ */
+export function hookMatchingBrackets(...pairs_rule_list: readonly ClosingPairsRules[]): EditorPlugin {
+	const bracketsOf = languageBrackets(pairs_rule_list);
+
+	return (editor, options) => {
+		const { input } = editor;
+
+		const isIgnored: IgnoreBracket = (offset) => isStringOrComment(editor.getTokenAt(offset)?.scopes || []);
+
+		const findMatch = () => {
+			const pairs = bracketsOf(options.language);
+			const { value, selectionStart, selectionEnd } = input;
+			if (!pairs || pairs.length === 0 || selectionStart !== selectionEnd) {
+				return;
+			}
+			return matchBracketAt(value, selectionStart, pairs, isIgnored);
+		};
+
+		let scheduled = false;
+		const update = () => {
+			if (scheduled) {
+				return;
+			}
+			scheduled = true;
+
+			// the content and the selection usually change together
+			queueMicrotask(() => {
+				scheduled = false;
+				const match = findMatch();
+				editor.setDecorations(
+					decoration_owner,
+					match
+						? [
+								{ start: match.open, end: match.open + 1, className: "bracket-match" },
+								{ start: match.close, end: match.close + 1, className: "bracket-match" },
+							]
+						: [],
+				);
+			});
+		};
+
+		const jump = () => {
+			const pairs = bracketsOf(options.language);
+			if (!pairs || pairs.length === 0) {
+				return;
+			}
+
+			const { value, selectionStart } = input;
+			let target: number;
+
+			const match = findMatch();
+			if (match) {
+				// the caret lands before the other bracket
+				const next_to_open = selectionStart === match.open || selectionStart === match.open + 1;
+				target = next_to_open ? match.close : match.open;
+			} else {
+				const enclosing = enclosingBrackets(value, selectionStart, pairs, isIgnored);
+				if (!enclosing) {
+					return;
+				}
+				target = enclosing.close;
+			}
+
+			input.setSelectionRange(target, target);
+			input.dispatchEvent(new Event("selectionchange"));
+			revealOffset(editor, target);
+		};
+
+		const cleanup = [
+			editor.onDidChangeContent(update),
+			editor.onDidChangeSelection(update),
+			editor.onDidChangeOptions(update),
+			editor.registerCommand("matchingBrackets.jump", jump),
+			editor.addKeybindings([{ key: "mod+shift+\\", command: "matchingBrackets.jump" }]),
+			injectStyle(input.ownerDocument, style),
+		];
+
+		update();
+
+		return () => {
+			cleanup.forEach((fn) => fn());
+			editor.setDecorations(decoration_owner, []);
+		};
+	};
+}
+
+/**
+ * Find the bracket matching the one next to `offset`, the bracket before `offset` is preferred.
+ */
+export function matchBracketAt(
+	value: string,
+	offset: number,
+	pairs: readonly ClosingPair[],
+	isIgnored: IgnoreBracket = () => false,
+): BracketMatch | undefined {
+	for (const position of [offset - 1, offset]) {
+		const char = value[position];
+		if (char === void 0) {
+			continue;
+		}
+
+		for (const [open, close] of pairs) {
+			if (char !== open && char !== close) {
+				continue;
+			}
+			if (isIgnored(position)) {
+				return void 0;
+			}
+
+			if (char === open) {
+				const match = scanForward(value, position + 1, open, close, isIgnored);
+				return match === -1 ? void 0 : { open: position, close: match };
+			}
+			const match = scanBackward(value, position - 1, open, close, isIgnored);
+			return match === -1 ? void 0 : { open: match, close: position };
+		}
+	}
+
+	return void 0;
+}
+
+/**
+ * Find the innermost pair of brackets around `offset`.
+ */
+export function enclosingBrackets(
+	value: string,
+	offset: number,
+	pairs: readonly ClosingPair[],
+	isIgnored: IgnoreBracket = () => false,
+): BracketMatch | undefined {
+	// the number of closed brackets of each pair seen so far
+	const depth = pairs.map(() => 0);
+
+	for (let i = offset - 1; i >= 0; i--) {
+		const index = pairs.findIndex(([open, close]) => value[i] === open || value[i] === close);
+		if (index === -1 || isIgnored(i)) {
+			continue;
+		}
+
+		const [open, close] = pairs[index];
+		if (value[i] === close) {
+			depth[index]++;
+		} else if (depth[index] > 0) {
+			depth[index]--;
+		} else {
+			const match = scanForward(value, i + 1, open, close, isIgnored);
+			if (match !== -1) {
+				return { open: i, close: match };
+			}
+		}
+	}
+
+	return void 0;
+}
+
+function scanForward(value: string, from: number, open: string, close: string, isIgnored: IgnoreBracket): number {
+	let depth = 0;
+	for (let i = from; i < value.length; i++) {
+		const char = value[i];
+		if ((char !== open && char !== close) || isIgnored(i)) {
+			continue;
+		}
+		if (char === open) {
+			depth++;
+		} else if (depth === 0) {
+			return i;
+		} else {
+			depth--;
+		}
+	}
+	return -1;
+}
+
+function scanBackward(value: string, from: number, open: string, close: string, isIgnored: IgnoreBracket): number {
+	let depth = 0;
+	for (let i = from; i >= 0; i--) {
+		const char = value[i];
+		if ((char !== open && char !== close) || isIgnored(i)) {
+			continue;
+		}
+		if (char === close) {
+			depth++;
+		} else if (depth === 0) {
+			return i;
+		} else {
+			depth--;
+		}
+	}
+	return -1;
+}
+
+/**
+ * The innermost string, comment or embedded code scope decides, e.g. code in a template string is not a string.
+ */
+export function isStringOrComment(scopes: readonly string[]): boolean {
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		const scope = scopes[i];
+		if (scope.startsWith("string") || scope.startsWith("comment")) {
+			return true;
+		}
+		if (scope.startsWith("meta.embedded") || scope.startsWith("meta.template.expression")) {
+			return false;
+		}
+	}
+	return false;
+}
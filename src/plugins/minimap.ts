@@ -0,0 +1,226 @@
+import type { ThemedToken } from "shiki";
+import { injectStyle } from "../style.js";
+import type { IDisposable, ShikiCode } from "./index.js";
+
+// the size of a character in the minimap, in CSS pixels
+const char_width = 1;
+const line_height = 2;
+
+const minimap_width = 80;
+
+const style = `.shikicode.minimap {
+	position: absolute;
+	top: 0;
+	right: 0;
+	bottom: 0;
+	width: var(--minimap-width);
+	overflow: hidden;
+}
+
+.shikicode.minimap canvas {
+	display: block;
+}
+
+.shikicode.minimap .minimap-slider {
+	position: absolute;
+	left: 0;
+	width: 100%;
+	background-color: rgb(128 128 128 / 20%);
+}
+
+.shikicode.minimap:hover .minimap-slider, .shikicode.minimap .minimap-slider.active {
+	background-color: rgb(128 128 128 / 35%);
+}
+`;
+
+/**
+ * A plugin that shows an overview of the whole document along the right edge of the editor.
+ * The lines are drawn from the tokens of the output, with the colors of the current theme variant,
+ * they are drawn again when the class or the style of the container or of one of its ancestors changes.
+ * Click or drag in the minimap to scroll.
+ */
+export function hookMinimap(editor: ShikiCode): IDisposable {
+	const { input, container } = editor;
+	const doc = input.ownerDocument;
+
+	const minimap = doc.createElement("div");
+	minimap.className = "shikicode minimap";
+	const canvas = doc.createElement("canvas");
+	const slider = doc.createElement("div");
+	slider.className = "minimap-slider";
+	minimap.append(canvas, slider);
+	container.append(minimap);
+	container.style.setProperty("--minimap-width", `${minimap_width}px`);
+
+	// the position of the minimap and the slider, in CSS pixels
+	const layout = () => {
+		const view_height = minimap.clientHeight;
+		const content_height = editor.tokenizedLines.length * line_height;
+
+		const max_scroll = input.scrollHeight - input.clientHeight;
+		const progress = max_scroll > 0 ? input.scrollTop / max_scroll : 0;
+		const slider_height = Math.max(
+			Math.min((input.clientHeight / input.scrollHeight) * content_height, view_height),
+			line_height * 4,
+		);
+
+		// the minimap scrolls along when the document is taller than the minimap
+		const scroll = progress * Math.max(content_height - view_height, 0);
+		const slider_top = progress * (Math.min(content_height, view_height) - slider_height);
+		return { view_height, max_scroll, scroll, slider_top, slider_height };
+	};
+
+	const draw = () => {
+		const { view_height, scroll, slider_top, slider_height } = layout();
+		const ratio = doc.defaultView?.devicePixelRatio || 1;
+
+		canvas.width = Math.round(minimap_width * ratio);
+		canvas.height = Math.round(view_height * ratio);
+		canvas.style.width = `${minimap_width}px`;
+		canvas.style.height = `${view_height}px`;
+
+		slider.style.top = `${slider_top}px`;
+		slider.style.height = `${slider_height}px`;
+
+		const context = canvas.getContext("2d");
+		if (!context) {
+			return;
+		}
+		context.scale(ratio, ratio);
+
+		const colorOf = tokenColor(container);
+		const tab_size = Number.parseInt(getComputedStyle(input).getPropertyValue("--tab-size"), 10) || 4;
+		const lines = editor.tokenizedLines;
+
+		const first = Math.floor(scroll / line_height);
+		const last = Math.min(lines.length, Math.ceil((scroll + view_height) / line_height));
+		for (let index = first; index < last; index++) {
+			const y = index * line_height - scroll;
+			let column = 0;
+			for (const token of lines[index].tokens) {
+				context.fillStyle = colorOf(token);
+				// a block for every run of characters, the whitespace is left blank
+				for (const [run] of token.content.matchAll(/\s+|\S+/g)) {
+					if (run.trim() === "") {
+						for (const char of run) {
+							column = char === "\t" ? (Math.floor(column / tab_size) + 1) * tab_size : column + 1;
+						}
+						continue;
+					}
+					context.fillRect(column * char_width, y, run.length * char_width, line_height * 0.8);
+					column += run.length;
+				}
+				if (column * char_width > minimap_width) {
+					break;
+				}
+			}
+		}
+	};
+
+	let frame: number | undefined;
+	const scheduleDraw = () => {
+		if (frame === void 0) {
+			frame = requestAnimationFrame(() => {
+				frame = void 0;
+				draw();
+			});
+		}
+	};
+
+	// click to center the viewport, drag the slider to scroll
+	const onPointerDown = (e: PointerEvent) => {
+		if (e.button !== 0) {
+			return;
+		}
+		e.preventDefault();
+
+		const { scroll, slider_top, slider_height, max_scroll, view_height } = layout();
+		const content_height = editor.tokenizedLines.length * line_height;
+		const y = e.clientY - minimap.getBoundingClientRect().top;
+
+		if (y < slider_top || y > slider_top + slider_height) {
+			const fraction = content_height > 0 ? (y + scroll) / content_height : 0;
+			input.scrollTop = fraction * input.scrollHeight - input.clientHeight / 2;
+		}
+
+		const start_y = e.clientY;
+		const start_scroll = input.scrollTop;
+		const track = Math.min(content_height, view_height) - slider_height;
+
+		const onPointerMove = (e: PointerEvent) => {
+			if (track > 0) {
+				input.scrollTop = start_scroll + ((e.clientY - start_y) / track) * max_scroll;
+			}
+		};
+		const onPointerUp = () => {
+			slider.classList.remove("active");
+			minimap.removeEventListener("pointermove", onPointerMove);
+			minimap.removeEventListener("pointerup", onPointerUp);
+			minimap.removeEventListener("pointercancel", onPointerUp);
+		};
+
+		slider.classList.add("active");
+		minimap.setPointerCapture(e.pointerId);
+		minimap.addEventListener("pointermove", onPointerMove);
+		minimap.addEventListener("pointerup", onPointerUp);
+		minimap.addEventListener("pointercancel", onPointerUp);
+	};
+
+	minimap.addEventListener("pointerdown", onPointerDown);
+	input.addEventListener("scroll", scheduleDraw);
+
+	const resize_observer = new ResizeObserver(scheduleDraw);
+	resize_observer.observe(container);
+
+	// the theme variant may follow the system color scheme
+	const color_scheme = doc.defaultView?.matchMedia("(prefers-color-scheme: dark)");
+	color_scheme?.addEventListener("change", scheduleDraw);
+
+	// or a class toggled on the container or on the page
+	const theme_observer = new MutationObserver(scheduleDraw);
+	for (let element: Element | null = container; element; element = element.parentElement) {
+		theme_observer.observe(element, { attributes: true, attributeFilter: ["class", "style"] });
+	}
+
+	const cleanup = [
+		editor.onDidChangeTokens(scheduleDraw),
+		editor.onDidChangeOptions(scheduleDraw),
+		injectStyle(doc, style),
+	];
+
+	scheduleDraw();
+
+	return () => {
+		if (frame !== void 0) {
+			cancelAnimationFrame(frame);
+		}
+		cleanup.forEach((fn) => fn());
+		input.removeEventListener("scroll", scheduleDraw);
+		resize_observer.disconnect();
+		theme_observer.disconnect();
+		color_scheme?.removeEventListener("change", scheduleDraw);
+		minimap.remove();
+		container.style.removeProperty("--minimap-width");
+	};
+}
+
+/**
+ * The colors of the tokens, for a single theme or for the theme variant in use.
+ */
+function tokenColor(container: HTMLElement): (token: ThemedToken) => string {
+	const style = getComputedStyle(container);
+	const fg = style.getPropertyValue("--fg").trim();
+
+	// the variant in use has its colors assigned to `--fg`
+	const variant = container.dataset.shikicodeThemes
+		?.split(" ")
+		.find((variant) => style.getPropertyValue(`--fg-${variant}`).trim() === fg);
+
+	return (token) => {
+		if (token.color) {
+			return token.color;
+		}
+		const color = variant && token.htmlStyle?.[`--shiki-${variant}`];
+		return color && color !== "inherit" ? color : fg;
+	};
+}
@@ -0,0 +1,91 @@
+import { injectStyle } from "../style.js";
+import { findMatches } from "./find_replace.js";
+import type { EditorOptions, IDisposable, ShikiCode } from "./index.js";
+import { getLanguageConfiguration } from "./language_configuration.js";
+
+const decoration_owner = "selection-highlight";
+
+const style = `.shikicode.output .line.current-line {
+	display: inline-block;
+	background-color: rgb(128 128 128 / 12%);
+	min-width: 100%;
+}
+
+.shikicode.output .line.current-line::before {
+	box-shadow: inset 0 0 0 100vmax rgb(128 128 128 / 12%);
+	font-weight: bold;
+}
+
+.shikicode.output .selection-occurrence {
+	outline: 1px solid rgb(128 128 128 / 40%);
+	background-color: rgb(173 214 255 / 30%);
+}
+`;
+
+const word = /^[\p{L}\p{N}_]+$/u;
+
+/**
+ * A plugin that highlights the line containing the caret, and the other occurrences of the selected word.
+ * Only the decorations change when the selection moves, the text is not highlighted again.
+ */
+export function hookSelectionHighlight(editor: ShikiCode, options: EditorOptions): IDisposable {
+	const { input } = editor;
+
+	const update = () => {
+		const { value, selectionStart, selectionEnd } = input;
+
+		if (selectionStart === selectionEnd) {
+			editor.setDecorations(decoration_owner, [
+				{ start: selectionStart, end: selectionStart, lineClassName: "current-line" },
+			]);
+			return;
+		}
+
+		const selected = value.slice(selectionStart, selectionEnd);
+		if (!isWord(selected, getLanguageConfiguration(options.language)?.wordPattern)) {
+			editor.setDecorations(decoration_owner, []);
+			return;
+		}
+
+		const occurrences = findMatches(value, selected, { regex: false, matchCase: true, wholeWord: true });
+
+		// the selection itself is not an occurrence, and neither is a part of a word
+		if (!occurrences.some((match) => match.index === selectionStart)) {
+			editor.setDecorations(decoration_owner, []);
+			return;
+		}
+
+		editor.setDecorations(
+			decoration_owner,
+			occurrences
+				.filter((match) => match.index !== selectionStart)
+				.map((match) => ({
+					start: match.index!,
+					end: match.index! + selected.length,
+					className: "selection-occurrence",
+				})),
+		);
+	};
+
+	const cleanup = [
+		editor.onDidChangeSelection(update),
+		editor.onDidChangeContent(update),
+		injectStyle(input.ownerDocument, style),
+	];
+
+	update();
+
+	return () => {
+		cleanup.forEach((fn) => fn());
+		editor.setDecorations(decoration_owner, []);
+	};
+}
+
+// the whole text is a single word, by the word pattern of the language when there is one
+function isWord(text: string, word_pattern: RegExp | undefined): boolean {
+	if (!word_pattern) {
+		return word.test(text);
+	}
+	const match = new RegExp(word_pattern.source, word_pattern.flags.replace("g", "")).exec(text);
+	return match?.index === 0 && match[0] === text;
+}
@@ -0,0 +1,624 @@
+import { mapOffset, type ContentChange } from "../change.js";
+import { injectStyle } from "../style.js";
+import { floorTab, offsetRect, visibleWidthLeadingSpace, type SelectAction } from "./common.js";
+import type { EditorOptions, IDisposable, IndentOptions, ShikiCode } from "./index.js";
+
+/**
+ * A snippet parsed from its template, the offsets are relative to `text`.
+ */
+export interface Snippet {
+	/**
+	 * The text inserted, without the syntax of the tab stops.
+	 */
+	readonly text: string;
+	/**
+	 * The tab stops in the order they are visited, the final tab stop `$0` comes last.
+	 */
+	readonly tabStops: readonly SnippetTabStop[];
+}
+
+export interface SnippetTabStop {
+	readonly index: number;
+	/**
+	 * The first range holds the placeholder, the others mirror what is typed into it.
+	 */
+	readonly ranges: readonly { readonly start: number; readonly end: number }[];
+	/**
+	 * The values offered for the placeholder, the first one is inserted.
+	 */
+	readonly choices?: readonly string[];
+}
+
+type SnippetNode =
+	| string
+	| {
+		readonly type: "tabstop";
+		readonly index: number;
+		readonly children?: readonly SnippetNode[];
+		readonly choices?: readonly string[];
+	}
+	| { readonly type: "variable"; readonly name: string; readonly children?: readonly SnippetNode[] };
+
+type TabStopNode = Extract<SnippetNode, { type: "tabstop" }>;
+
+const int_pattern = /\d+/y;
+const name_pattern = /[_a-zA-Z]\w*/y;
+
+/**
+ * Parse a template in the snippet syntax of VS Code:
+ * - `$1` or `${1}` is a tab stop, `$0` is the final tab stop, at the end of the snippet when omitted;
+ * - `${1:text}` is a placeholder, which may contain other tab stops, e.g. `${1:foo ${2:bar}}`;
+ * - `${1|one,two|}` is a choice of values;
+ * - the same tab stop used several times mirrors its placeholder;
+ * - `$name` or `${name:default}` is a variable, replaced by its value in `variables` or else its default;
+ * - `\$`, `\}` and `\\` are escapes, as well as `\,` and `\|` in choices.
+ *
+ * The text which is not valid syntax is kept as it is.
+ */
+export function parseSnippet(template: string, variables: Readonly<Record<string, string>> = {}): Snippet {
+	let pos = 0;
+
+	const match = (pattern: RegExp) => {
+		pattern.lastIndex = pos;
+		const result = pattern.exec(template)?.[0];
+		if (result !== void 0) {
+			pos += result.length;
+		}
+		return result;
+	};
+
+	// the text up to the `}` closing a placeholder, or to the end
+	const parseNodes = (nested: boolean): SnippetNode[] => {
+		const nodes: SnippetNode[] = [];
+		let text = "";
+		while (pos < template.length) {
+			const char = template[pos];
+			const next = template[pos + 1];
+			if (char === "\\" && (next === "$" || next === "}" || next === "\\")) {
+				text += next;
+				pos += 2;
+				continue;
+			}
+			if (nested && char === "}") {
+				break;
+			}
+			if (char === "$") {
+				const start = pos;
+				const node = parseDollar();
+				if (node) {
+					if (text) {
+						nodes.push(text);
+					}
+					text = "";
+					nodes.push(node);
+					continue;
+				}
+				pos = start;
+			}
+			text += char;
+			pos++;
+		}
+		if (text) {
+			nodes.push(text);
+		}
+		return nodes;
+	};
+
+	const parseChoices = (): string[] | undefined => {
+		const choices: string[] = [];
+		let choice = "";
+		while (pos < template.length) {
+			const char = template[pos];
+			const next = template[pos + 1];
+			if (char === "\\" && (next === "," || next === "|" || next === "\\" || next === "$" || next === "}")) {
+				choice += next;
+				pos += 2;
+			} else if (char === ",") {
+				choices.push(choice);
+				choice = "";
+				pos++;
+			} else if (char === "|") {
+				if (next !== "}") {
+					return void 0;
+				}
+				choices.push(choice);
+				pos += 2;
+				return choices;
+			} else {
+				choice += char;
+				pos++;
+			}
+		}
+		return void 0;
+	};
+
+	// the tab stop or the variable starting at the `$`, undefined when it is not valid syntax
+	const parseDollar = (): SnippetNode | undefined => {
+		pos++;
+		if (template[pos] !== "{") {
+			const index = match(int_pattern);
+			if (index !== void 0) {
+				return { type: "tabstop", index: Number(index) };
+			}
+			const name = match(name_pattern);
+			return name === void 0 ? void 0 : { type: "variable", name };
+		}
+
+		pos++;
+		const index = match(int_pattern);
+		const name = index === void 0 ? match(name_pattern) : void 0;
+		if (index === void 0 && name === void 0) {
+			return void 0;
+		}
+		const node =
+			index === void 0
+				? { type: "variable" as const, name: name! }
+				: { type: "tabstop" as const, index: Number(index) };
+
+		if (template[pos] === "}") {
+			pos++;
+			return node;
+		}
+		if (template[pos] === ":") {
+			pos++;
+			const children = parseNodes(true);
+			if (template[pos] !== "}") {
+				return void 0;
+			}
+			pos++;
+			return { ...node, children };
+		}
+		if (template[pos] === "|" && node.type === "tabstop") {
+			pos++;
+			const choices = parseChoices();
+			return choices && { ...node, choices };
+		}
+		return void 0;
+	};
+
+	const nodes = parseNodes(false);
+
+	// the first placeholder of a tab stop gives its text to the other uses
+	const definitions = new Map<number, TabStopNode>();
+	const define = (nodes: readonly SnippetNode[]) => {
+		for (const node of nodes) {
+			if (typeof node === "string") {
+				continue;
+			}
+			if (node.type === "tabstop") {
+				const definition = definitions.get(node.index);
+				if (!definition || (!definition.children && !definition.choices && (node.children || node.choices))) {
+					definitions.set(node.index, node);
+				}
+			}
+			define(node.children || []);
+		}
+	};
+	define(nodes);
+
+	let text = "";
+	const ranges = new Map<number, { start: number; end: number }[]>();
+	// the tab stops being rendered, a placeholder containing itself is left out
+	const rendering = new Set<number>();
+
+	const render = (nodes: readonly SnippetNode[], record: boolean) => {
+		for (const node of nodes) {
+			if (typeof node === "string") {
+				text += node;
+				continue;
+			}
+			if (node.type === "variable") {
+				if (variables[node.name] === void 0) {
+					render(node.children || [], record);
+				} else {
+					text += variables[node.name];
+				}
+				continue;
+			}
+
+			const start = text.length;
+			const definition = definitions.get(node.index)!;
+			if (!rendering.has(node.index)) {
+				rendering.add(node.index);
+				if (definition.choices) {
+					text += definition.choices[0] || "";
+				} else {
+					// the tab stops in a mirrored placeholder are only visited in the placeholder
+					render(definition.children || [], record && node === definition);
+				}
+				rendering.delete(node.index);
+			}
+
+			if (record) {
+				const list = ranges.get(node.index) || [];
+				if (node === definition) {
+					list.unshift({ start, end: text.length });
+				} else {
+					list.push({ start, end: text.length });
+				}
+				ranges.set(node.index, list);
+			}
+		}
+	};
+	render(nodes, true);
+
+	const tab_stops: SnippetTabStop[] = Array.from(ranges.keys())
+		.filter((index) => index !== 0)
+		.sort((a, b) => a - b)
+		.map((index) => {
+			const { choices } = definitions.get(index)!;
+			return choices ? { index, ranges: ranges.get(index)!, choices } : { index, ranges: ranges.get(index)! };
+		});
+	tab_stops.push({ index: 0, ranges: ranges.get(0) || [{ start: text.length, end: text.length }] });
+
+	return { text, tabStops: tab_stops };
+}
+
+/**
+ * Indent the lines of a snippet after the first one with `indent`, the indentation of the line it is inserted in.
+ * The tabs leading the lines of the snippet are indentation, inserted as spaces when `insertSpaces` is on.
+ */
+export function indentSnippet(snippet: Snippet, indent: string, options: IndentOptions): Snippet {
+	const indent_unit = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+
+	// where each offset of the snippet moves to
+	const offsets: number[] = [];
+	let text = "";
+	let leading = true;
+	for (const char of snippet.text.split("")) {
+		offsets.push(text.length);
+		if (char === "\n") {
+			text += "\n" + indent;
+			leading = true;
+		} else if (char === "\t" && leading) {
+			text += indent_unit;
+		} else {
+			text += char;
+			leading = false;
+		}
+	}
+	offsets.push(text.length);
+
+	return {
+		text,
+		tabStops: snippet.tabStops.map((tab_stop) => ({
+			...tab_stop,
+			ranges: tab_stop.ranges.map(({ start, end }) => ({ start: offsets[start], end: offsets[end] })),
+		})),
+	};
+}
+
+interface Range {
+	start: number;
+	end: number;
+}
+
+interface Session {
+	readonly tabStops: readonly { readonly ranges: Range[]; readonly choices?: readonly string[] }[];
+	/**
+	 * The whole snippet, the session ends when the caret leaves it.
+	 */
+	readonly bounds: Range;
+	current: number;
+}
+
+// move a range along with a change, a range grows with the text typed at either end
+function mapRange(range: Range, change: ContentChange) {
+	const inserted_at_end = change.start === change.end && change.start === range.end;
+	range.start = mapOffset(range.start, change);
+	range.end = inserted_at_end ? range.end + change.text.length : Math.max(range.start, mapOffset(range.end, change));
+}
+
+const insert_snippets = new WeakMap<ShikiCode, (template: string, range?: Range) => void>();
+
+/**
+ * Insert a snippet in place of `range`, the selection by default, and select its first tab stop.
+ * The syntax of the template is described in `parseSnippet`, the editor must use the `hookSnippets` plugin.
+ */
+export function insertSnippet(
+	editor: ShikiCode,
+	template: string,
+	range?: { readonly start: number; readonly end: number },
+): void {
+	const insert = insert_snippets.get(editor);
+	if (!insert) {
+		throw new Error("insertSnippet requires the hookSnippets plugin");
+	}
+	insert(template, range && { start: range.start, end: range.end });
+}
+
+const style = `.shikicode.output .snippet-placeholder {
+	outline: 1px solid rgb(128 128 128 / 50%);
+	background-color: rgb(128 128 128 / 15%);
+}
+
+.shikicode.snippet-choices {
+	position: absolute;
+	z-index: 1;
+	box-shadow: 0 2px 8px rgb(0 0 0 / 36%);
+	border: 1px solid rgb(128 128 128 / 40%);
+	border-radius: 4px;
+	background-color: var(--bg);
+	min-width: 8em;
+	max-height: calc(12 * 1.6em);
+	overflow-y: auto;
+	color: var(--fg);
+	font-family: var(--font-family, monospace);
+	line-height: normal;
+}
+
+.shikicode.snippet-choices[hidden] {
+	display: none;
+}
+
+.shikicode.snippet-choices .snippet-choice {
+	cursor: pointer;
+	padding: 0 6px;
+	height: 1.6em;
+	line-height: 1.6em;
+	white-space: pre;
+}
+
+.shikicode.snippet-choices .snippet-choice[aria-selected="true"] {
+	background-color: rgb(128 128 128 / 25%);
+}
+`;
+
+/**
+ * A plugin that inserts snippets with `insertSnippet`, and the completion items whose `insertTextFormat` is `snippet`.
+ *
+ * While a snippet is active, `Tab` and `Shift+Tab` move between its tab stops instead of indenting,
+ * what is typed into a placeholder is mirrored to the other uses of its tab stop,
+ * and the choices of a tab stop are listed, `Up` and `Down` select one and `Enter` inserts it.
+ * `Escape`, reaching the final tab stop or moving the caret out of the snippet ends it.
+ *
+ * The keys are bound with the `inSnippetMode` and `snippetChoicesVisible` contexts, to the commands `snippet.next`,
+ * `snippet.previous`, `snippet.exit`, `snippet.selectNextChoice`, `snippet.selectPreviousChoice`,
+ * `snippet.acceptChoice` and `snippet.closeChoices`.
+ */
+export function hookSnippets(editor: ShikiCode, options: EditorOptions): IDisposable {
+	const { input, container } = editor;
+	const doc = input.ownerDocument;
+
+	const list = doc.createElement("div");
+	list.className = "shikicode snippet-choices";
+	list.setAttribute("role", "listbox");
+	list.hidden = true;
+	container.append(list);
+
+	let session: Session | undefined;
+	let selected = 0;
+	// the edits copying a placeholder to its mirrors
+	let mirroring = false;
+
+	const decorate = () => {
+		const ranges = session?.tabStops.slice(0, -1).flatMap((tab_stop) => tab_stop.ranges) || [];
+		editor.setDecorations(
+			"snippet",
+			ranges.map(({ start, end }) => ({ start, end, className: "snippet-placeholder" })),
+		);
+	};
+
+	const closeChoices = () => {
+		list.hidden = true;
+		list.replaceChildren();
+		editor.setContext("snippetChoicesVisible", false);
+	};
+
+	const end = () => {
+		if (!session) {
+			return;
+		}
+		session = void 0;
+		editor.setContext("inSnippetMode", false);
+		closeChoices();
+		decorate();
+	};
+
+	const openChoices = () => {
+		const { choices, ranges } = session!.tabStops[session!.current];
+		const rect = choices && offsetRect(editor, ranges[0].start);
+		if (!rect) {
+			return;
+		}
+
+		const value = input.value.slice(ranges[0].start, ranges[0].end);
+		selected = Math.max(0, choices.indexOf(value));
+		list.replaceChildren(
+			...choices.map((choice, index) => {
+				const row = doc.createElement("div");
+				row.className = "snippet-choice";
+				row.setAttribute("role", "option");
+				row.setAttribute("aria-selected", String(index === selected));
+				row.dataset.index = String(index);
+				row.textContent = choice;
+				return row;
+			}),
+		);
+
+		const container_rect = container.getBoundingClientRect();
+		list.style.left = `${rect.left - container_rect.left}px`;
+		list.style.top = `${rect.bottom - container_rect.top}px`;
+		list.hidden = false;
+		editor.setContext("snippetChoicesVisible", true);
+	};
+
+	const selectChoice = (index: number) => {
+		const length = list.children.length;
+		list.children[selected].setAttribute("aria-selected", "false");
+		selected = (index + length) % length;
+		list.children[selected].setAttribute("aria-selected", "true");
+		list.children[selected].scrollIntoView({ block: "nearest" });
+	};
+
+	const acceptChoice = () => {
+		const { choices, ranges } = session!.tabStops[session!.current];
+		const choice = choices![selected];
+		closeChoices();
+
+		const [placeholder] = ranges;
+		editor.applyEdits([{ value: choice, start: placeholder.start, end: placeholder.end }]);
+		// the mirrors before the placeholder may have moved it
+		editor.applyEdits([], { selection: { start: placeholder.start, end: placeholder.end } });
+	};
+
+	// select a tab stop, the session ends at the final one
+	const visit = (index: number) => {
+		const { tabStops: tab_stops } = session!;
+		session!.current = Math.max(0, Math.min(index, tab_stops.length - 1));
+		const { start, end: range_end } = tab_stops[session!.current].ranges[0];
+
+		closeChoices();
+		if (session!.current === tab_stops.length - 1) {
+			end();
+		}
+		editor.applyEdits([], { selection: { start, end: range_end } });
+		if (session) {
+			openChoices();
+		}
+	};
+
+	// copy the placeholder being edited to the other uses of its tab stop
+	const mirror = (value: string) => {
+		const [placeholder, ...mirrors] = session!.tabStops[session!.current].ranges;
+		const text = value.slice(placeholder.start, placeholder.end);
+		const edits = mirrors
+			.filter(({ start, end }) => value.slice(start, end) !== text)
+			.map(({ start, end }) => ({ value: text, start, end }));
+		if (edits.length === 0) {
+			return;
+		}
+
+		const shift = edits
+			.filter((edit) => edit.end <= placeholder.start)
+			.reduce((sum, edit) => sum + edit.value.length - (edit.end - edit.start), 0);
+		const selection: SelectAction = {
+			start: input.selectionStart + shift,
+			end: input.selectionEnd + shift,
+			direction: input.selectionDirection,
+		};
+
+		// undone along with the typing
+		mirroring = true;
+		editor.applyEdits(edits, { selection, mergeUndo: true });
+		mirroring = false;
+	};
+
+	const onMouseDown = (e: MouseEvent) => {
+		// keep the focus in the editor
+		e.preventDefault();
+		const row = (e.target as HTMLElement).closest<HTMLElement>(".snippet-choice");
+		if (row && session) {
+			selected = Number(row.dataset.index);
+			acceptChoice();
+		}
+	};
+
+	const insert = (template: string, range?: Range) => {
+		end();
+		if (input.readOnly) {
+			return;
+		}
+		range ||= { start: input.selectionStart, end: input.selectionEnd };
+
+		const { value } = input;
+		const line_start = value.lastIndexOf("\n", range.start - 1) + 1;
+		const line_end = value.indexOf("\n", range.start);
+		const variables = {
+			TM_SELECTED_TEXT: value.slice(range.start, range.end),
+			TM_CURRENT_LINE: value.slice(line_start, line_end === -1 ? value.length : line_end),
+		};
+
+		// the snippet lines line up with the line it is inserted in, as after pressing `Enter`
+		const [width] = visibleWidthLeadingSpace(value.slice(line_start, range.start), options.tabSize);
+		const indent_width = floorTab(width, options.tabSize);
+		const indent = options.insertSpaces ? " ".repeat(indent_width) : "\t".repeat(indent_width / options.tabSize);
+		const snippet = indentSnippet(parseSnippet(template, variables), indent, options);
+
+		const tab_stops = snippet.tabStops.map(({ ranges, choices }) => ({
+			ranges: ranges.map(({ start, end }) => ({ start: range.start + start, end: range.start + end })),
+			choices,
+		}));
+		const [first] = tab_stops[0].ranges;
+		editor.applyEdits([{ value: snippet.text, start: range.start, end: range.end }], {
+			selection: { start: first.start, end: first.end },
+		});
+		if (tab_stops.length === 1) {
+			return;
+		}
+
+		session = {
+			tabStops: tab_stops,
+			bounds: { start: range.start, end: range.start + snippet.text.length },
+			current: 0,
+		};
+		editor.setContext("inSnippetMode", true);
+		decorate();
+		openChoices();
+	};
+
+	insert_snippets.set(editor, insert);
+	list.addEventListener("mousedown", onMouseDown);
+
+	const cleanup = [
+		editor.onDidChangeContent(({ changes, value, isUndoing, isRedoing }) => {
+			if (!session) {
+				return;
+			}
+			for (const change of changes) {
+				const { bounds } = session;
+				if (change.start < bounds.start || change.end > bounds.end) {
+					end();
+					return;
+				}
+				mapRange(bounds, change);
+				for (const tab_stop of session.tabStops) {
+					tab_stop.ranges.forEach((range) => mapRange(range, change));
+				}
+			}
+
+			// the mirrors are undone and redone along with the placeholder
+			if (!mirroring) {
+				closeChoices();
+				if (!isUndoing && !isRedoing) {
+					mirror(value);
+				}
+			}
+			decorate();
+		}),
+		editor.onDidChangeSelection(({ selectionStart, selectionEnd }) => {
+			if (session && (selectionStart < session.bounds.start || selectionEnd > session.bounds.end)) {
+				end();
+			}
+		}),
+		editor.onDidBlur(closeChoices),
+		editor.registerCommand("snippet.next", () => session !== void 0 && visit(session.current + 1)),
+		editor.registerCommand("snippet.previous", () => session !== void 0 && visit(session.current - 1)),
+		editor.registerCommand("snippet.exit", end),
+		editor.registerCommand("snippet.selectNextChoice", () => !list.hidden && selectChoice(selected + 1)),
+		editor.registerCommand("snippet.selectPreviousChoice", () => !list.hidden && selectChoice(selected - 1)),
+		editor.registerCommand("snippet.acceptChoice", () => !list.hidden && acceptChoice()),
+		editor.registerCommand("snippet.closeChoices", closeChoices),
+		// the suggestions of `hookCompletion` take the keys while they are open
+		editor.addKeybindings(
+			[
+				{ key: "tab", command: "snippet.next", when: "inSnippetMode" },
+				{ key: "shift+tab", command: "snippet.previous", when: "inSnippetMode" },
+				{ key: "escape", command: "snippet.exit", when: "inSnippetMode && !snippetChoicesVisible" },
+				{ key: "down", command: "snippet.selectNextChoice", when: "snippetChoicesVisible" },
+				{ key: "up", command: "snippet.selectPreviousChoice", when: "snippetChoicesVisible" },
+				{ key: "enter", command: "snippet.acceptChoice", when: "snippetChoicesVisible" },
+				{ key: "escape", command: "snippet.closeChoices", when: "snippetChoicesVisible" },
+			].map((keybinding) => ({ ...keybinding, when: `${keybinding.when} && !suggestWidgetVisible` })),
+		),
+		injectStyle(doc, style),
+	];
+
+	return () => {
+		end();
+		insert_snippets.delete(editor);
+		list.removeEventListener("mousedown", onMouseDown);
+		cleanup.forEach((fn) => fn());
+		list.remove();
+	};
+}
@@ -1,36 +1,16 @@
 import {
 	ceilTab,
 	floorTab,
-	setRangeText,
 	visibleWidthFromLeft,
 	visibleWidthLeadingSpace,
+	type Action,
 	type InputState,
+	type PatchAction,
+	type SelectAction,
 } from "./common.js";
-import type { IDisposable, IndentOptions, ShikiCode } from "./index.js";
-
-export interface PatchAction {
-	value: string;
-	start: number;
-	end: number;
-	mode?: SelectionMode;
-}
-
-export interface SelectAction {
-	start: number;
-	end: number;
-	direction?: "forward" | "backward" | "none";
-}
-
-export interface Action {
-	/**
-	 * The patched text content.
-	 */
-	patch?: PatchAction;
-	/**
-	 * The new selection.
-	 */
-	select?: SelectAction;
-}
+import type { EditorOptions, EditorPlugin, IDisposable, IndentOptions, ShikiCode } from "./index.js";
+import { bracketOnEnterRules, type LanguageIndentationRules } from "./indentation_rules.js";
+import { getLanguageConfiguration, type LanguageConfiguration } from "./language_configuration.js";
 
 const empty_action: Action = {};
 
@@ -236,7 +216,12 @@ export function outdentText(input: InputState, options: IndentOptions): Action {
 	} satisfies Action;
 }
 
-function enter(input: InputState, options: IndentOptions): Action {
+/**
+ * Insert a line break with the indentation of the language rules.
+ * The first matching `onEnterRules` decides the indentation of the new line, followed by the rules of the brackets,
+ * then the line is indented when it matches `increaseIndentPattern`.
+ */
+export function enterText(input: InputState, options: IndentOptions, rules?: LanguageConfiguration): Action {
 	if (input.selectionStart !== input.selectionEnd) {
 		return empty_action;
 	}
@@ -246,45 +231,77 @@ function enter(input: InputState, options: IndentOptions): Action {
 		return empty_action;
 	}
 
-	const line = value.slice(line_start, selectionStart);
-	let [leading_space] = visibleWidthLeadingSpace(line, options.tabSize);
-	leading_space = floorTab(leading_space, options.tabSize);
-	let indent_space = leading_space;
-
-	switch (value[selectionStart - 1]) {
-		case "(":
-		case "[":
-		case "{": {
-			indent_space += options.tabSize;
+	const before_text = value.slice(line_start, selectionStart);
+	const after_text = value.slice(selectionStart, getLineEnd(value, selectionStart));
+	const previous_line_text = line_start > 0 ? value.slice(getLineStart(value, line_start - 1), line_start - 1) : "";
+
+	const rule = (rules?.onEnterRules || [])
+		.concat(bracketOnEnterRules(rules?.brackets))
+		.find(
+			(rule) =>
+				rule.beforeText.test(before_text) &&
+				(!rule.afterText || rule.afterText.test(after_text)) &&
+				(!rule.previousLineText || rule.previousLineText.test(previous_line_text)),
+		);
+
+	let action = rule?.action;
+	if (!action) {
+		const { increaseIndentPattern, decreaseIndentPattern } = rules?.indentationRules || {};
+		if (increaseIndentPattern?.test(before_text)) {
+			action = { indent: decreaseIndentPattern?.test(after_text) ? "indentOutdent" : "indent" };
+		} else {
+			action = { indent: "none" };
 		}
 	}
 
-	let replacement = "\n";
-	if (options.insertSpaces) {
-		replacement += " ".repeat(indent_space);
+	const indent_unit = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+	const indentOf = (width: number) =>
+		options.insertSpaces ? " ".repeat(width) : "\t".repeat(width / options.tabSize);
+
+	// the text appended to the indentation aligns with the line, e.g. ` * ` in a JSDoc block
+	let leading: string;
+	if (action.appendText !== void 0 || action.removeText !== void 0) {
+		const [, span] = visibleWidthLeadingSpace(before_text, options.tabSize);
+		leading = before_text.slice(0, span);
 	} else {
-		replacement += "\t".repeat(indent_space / options.tabSize);
+		const [width] = visibleWidthLeadingSpace(before_text, options.tabSize);
+		leading = indentOf(floorTab(width, options.tabSize));
 	}
 
-	let select: SelectAction | undefined;
-
-	switch (value.slice(selectionStart - 1, selectionStart + 1)) {
-		case "{}":
-		case "[]":
-		case "()": {
-			select = {
-				start: selectionStart + replacement.length,
-				end: selectionStart + replacement.length,
-				direction: "none",
-			};
-
-			if (options.insertSpaces) {
-				replacement += "\n" + " ".repeat(leading_space);
-			} else {
-				replacement += "\n" + "\t".repeat(leading_space / options.tabSize);
+	let indent = leading;
+	switch (action.indent) {
+		case "indent": {
+			indent += indent_unit;
+			break;
+		}
+		case "indentOutdent": {
+			if (action.appendText === void 0) {
+				indent += indent_unit;
 			}
+			break;
+		}
+		case "outdent": {
+			const [width] = visibleWidthLeadingSpace(leading, options.tabSize);
+			indent = indentOf(Math.max(floorTab(width - 1, options.tabSize), 0));
+			break;
 		}
 	}
+	if (action.removeText) {
+		indent = indent.slice(0, Math.max(indent.length - action.removeText, 0));
+	}
+	indent += action.appendText || "";
+
+	let replacement = "\n" + indent;
+	let select: SelectAction | undefined;
+
+	if (action.indent === "indentOutdent") {
+		select = {
+			start: selectionStart + replacement.length,
+			end: selectionStart + replacement.length,
+			direction: "none",
+		};
+		replacement += "\n" + leading;
+	}
 
 	return {
 		patch: {
@@ -297,6 +314,69 @@ function enter(input: InputState, options: IndentOptions): Action {
 	};
 }
 
+/**
+ * Outdent the line when the typed text makes it match `decreaseIndentPattern`, e.g. a `}` on an otherwise blank line.
+ * The line is left alone when it is already outdented from the line above.
+ */
+export function outdentOnType(
+	input: InputState,
+	text: string,
+	options: IndentOptions,
+	rules?: LanguageConfiguration,
+): Action {
+	const decrease = rules?.indentationRules?.decreaseIndentPattern;
+	if (!decrease) {
+		return empty_action;
+	}
+
+	const { value, selectionStart, selectionEnd } = input;
+	const line_start = getLineStart(value, selectionStart);
+	const line_end = getLineEnd(value, selectionEnd);
+	if (line_start === 0 || value.slice(selectionStart, selectionEnd).includes("\n")) {
+		return empty_action;
+	}
+
+	const before_text = value.slice(line_start, selectionStart);
+	const new_line = before_text + text + value.slice(selectionEnd, line_end);
+	if (!decrease.test(new_line) || decrease.test(value.slice(line_start, line_end))) {
+		return empty_action;
+	}
+
+	const [width, span] = visibleWidthLeadingSpace(before_text, options.tabSize);
+	if (width === 0) {
+		return empty_action;
+	}
+
+	// the indentation expected after the closest line which is not blank
+	let expected = 0;
+	for (let end = line_start - 1; end >= 0; ) {
+		const start = getLineStart(value, end);
+		const line = value.slice(start, end);
+		if (line.trim() !== "") {
+			[expected] = visibleWidthLeadingSpace(line, options.tabSize);
+			if (rules.indentationRules?.increaseIndentPattern?.test(line)) {
+				expected += options.tabSize;
+			}
+			break;
+		}
+		end = start - 1;
+	}
+	if (width < expected) {
+		return empty_action;
+	}
+
+	const outdented = Math.max(floorTab(width - 1, options.tabSize), 0);
+	const indent = options.insertSpaces ? " ".repeat(outdented) : "\t".repeat(outdented / options.tabSize);
+	return {
+		patch: {
+			value: indent + before_text.slice(span) + text,
+			start: line_start,
+			end: selectionEnd,
+			mode: "end",
+		},
+	};
+}
+
 function backspace(input: InputState, options: IndentOptions): Action {
 	const { value, selectionStart, selectionEnd } = input;
 	if (selectionStart !== selectionEnd) {
@@ -378,68 +458,106 @@ function getLineEnd(text: string, index: number): number {
 	return index;
 }
 
+/**
+ * The indentation options, and the language which picks the indentation rules.
+ */
+export type TabOptions = IndentOptions & Partial<Pick<EditorOptions, "language">>;
+
 /**
  * A plugin that automatically inserts or removes indentation.
+ * `Enter` and typing follow the `indentationRules`, `onEnterRules` and `brackets` of the language configuration.
+ *
+ * The commands are `tab.indent` (`Tab`), `tab.outdent` (`Shift+Tab`), `tab.enter` (`Enter`),
+ * `tab.deleteIndentation` (`Backspace`) and `tab.blur` (`Escape`).
  */
-export function hookTab({ input }: ShikiCode, options: IndentOptions): IDisposable {
-	const onKeydown = (e: KeyboardEvent) => {
-		switch (e.key) {
-			case "Tab": {
-				e.preventDefault();
+export function hookTab(editor: ShikiCode, options: TabOptions): IDisposable {
+	return tabPlugin(new Map())(editor, options);
+}
 
-				const action = e.shiftKey ? outdentText : indentText;
-				const { patch, select } = action(e.target as HTMLTextAreaElement, options);
-				if (patch) {
-					setRangeText(input, patch.value, patch.start, patch.end, patch.mode);
-					input.dispatchEvent(new Event("input"));
-					input.dispatchEvent(new Event("change"));
-				}
-				if (select) {
-					input.setSelectionRange(select.start, select.end, select.direction);
-					input.dispatchEvent(new Event("selectionchange"));
-				}
-				break;
-			}
+/**
+ * `hookTab` with extra indentation rules, which replace the rules of the language configuration.
+ */
+export function hookIndentationRules(...rules_list: readonly LanguageIndentationRules[]): EditorPlugin {
+	return tabPlugin(new Map(rules_list.map((rules) => [rules.language, rules])));
+}
 
-			case "Enter": {
-				const { patch, select } = enter(e.target as HTMLTextAreaElement, options);
-				if (patch || select) {
-					e.preventDefault();
-				}
-				if (patch) {
-					setRangeText(input, patch.value, patch.start, patch.end, patch.mode);
-					input.dispatchEvent(new Event("input"));
-					input.dispatchEvent(new Event("change"));
-				}
-				if (select) {
-					input.setSelectionRange(select.start, select.end, select.direction);
-					input.dispatchEvent(new Event("selectionchange"));
-				}
-				break;
-			}
+function tabPlugin(overrides: ReadonlyMap<string, LanguageIndentationRules>) {
+	const languageRules = (language: string): LanguageConfiguration | undefined => {
+		const configuration = getLanguageConfiguration(language);
+		const override = overrides.get(language);
+		return override ? { ...configuration, ...override } : configuration;
+	};
 
-			case "Backspace": {
-				const { select } = backspace(e.target as HTMLTextAreaElement, options);
-				if (select) {
-					input.setSelectionRange(select.start, select.end, select.direction);
-					input.dispatchEvent(new Event("selectionchange"));
-				}
+	return (editor: ShikiCode, options: TabOptions): IDisposable => {
+		const { input } = editor;
+		const language_rules = () => (options.language === void 0 ? void 0 : languageRules(options.language));
 
-				break;
+		// the keys are left to the textarea in a read-only editor
+		const indent = (action: typeof indentText) => {
+			if (input.readOnly) {
+				return false;
 			}
+			const { patch, select } = action(input, options);
+			editor.applyEdits(patch ? [patch] : [], { selection: select });
+		};
 
-			case "Escape": {
-				input.blur();
-				break;
+		const enter = () => {
+			if (input.readOnly) {
+				return false;
+			}
+			const { patch, select } = enterText(input, options, language_rules());
+			if (!patch && !select) {
+				return false;
 			}
+			editor.applyEdits(patch ? [patch] : [], { selection: select });
+			return true;
+		};
 
-			default:
+		// selects the indentation up to the previous tab stop, which the default action of `Backspace` deletes
+		const deleteIndentation = () => {
+			if (input.readOnly) {
+				return false;
+			}
+			const { select } = backspace(input, options);
+			editor.applyEdits([], { selection: select });
+			return false;
+		};
+
+		const onKeydown = (e: KeyboardEvent) => {
+			// a printable character
+			if (e.defaultPrevented || e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey || e.isComposing) {
 				return;
-		}
-	};
+			}
+			const { patch } = outdentOnType(input, e.key, options, language_rules());
+			if (patch) {
+				e.preventDefault();
+				editor.applyEdits([patch]);
+			}
+		};
 
-	input.addEventListener("keydown", onKeydown);
-	return () => {
-		input.removeEventListener("keydown", onKeydown);
+		input.addEventListener("keydown", onKeydown);
+		const cleanup = [
+			editor.registerCommand("tab.indent", () => indent(indentText)),
+			editor.registerCommand("tab.outdent", () => indent(outdentText)),
+			editor.registerCommand("tab.enter", enter),
+			editor.registerCommand("tab.deleteIndentation", deleteIndentation),
+			editor.registerCommand("tab.blur", () => {
+				input.blur();
+				// `Escape` is left to the page, e.g. to close a dialog around the editor
+				return false;
+			}),
+			editor.addKeybindings([
+				{ key: "tab", command: "tab.indent" },
+				{ key: "shift+tab", command: "tab.outdent" },
+				{ key: "enter", command: "tab.enter" },
+				{ key: "backspace", command: "tab.deleteIndentation" },
+				{ key: "escape", command: "tab.blur" },
+			]),
+		];
+
+		return () => {
+			input.removeEventListener("keydown", onKeydown);
+			cleanup.forEach((fn) => fn());
+		};
 	};
 }
@@ -0,0 +1,581 @@
+import type { ThemedToken } from "shiki";
+import { visibleWidthLeadingSpace } from "./plugins/common.js";
+import { findLine, lineStarts, type LinesPatch, type TokenizedLine } from "./tokenize.js";
+
+/**
+ * Class names and styles added to the text in `[start, end)`, the offsets are relative to the value.
+ */
+export interface Decoration {
+	readonly start: number;
+	readonly end: number;
+	readonly className?: string;
+	/**
+	 * Inline CSS added to the text, e.g. `color: red`.
+	 */
+	readonly style?: string;
+	/**
+	 * Class names added to the `.line` elements of the lines the range covers.
+	 */
+	readonly lineClassName?: string;
+	/**
+	 * Inline CSS added to the `.line` elements of the lines the range covers.
+	 */
+	readonly lineStyle?: string;
+}
+
+/**
+ * A decoration clipped to a single line, the offsets are relative to the line.
+ */
+export interface InlineDecoration {
+	readonly start: number;
+	readonly end: number;
+	readonly className: string;
+	readonly style: string;
+}
+
+/**
+ * The decorations of a single line.
+ */
+export interface LineDecorations {
+	readonly inline: readonly InlineDecoration[];
+	readonly className: string;
+	readonly style: string;
+}
+
+export interface LinesView {
+	/**
+	 * The rendered lines.
+	 */
+	readonly lines: readonly TokenizedLine[];
+	/**
+	 * Replace the whole output with the given lines.
+	 */
+	render(lines: readonly TokenizedLine[]): void;
+	/**
+	 * Replace only the changed `.line` elements.
+	 */
+	patch(patch: LinesPatch): void;
+	/**
+	 * Replace the decorations, only the lines whose decorations changed are rendered again.
+	 */
+	setDecorations(decorations: readonly Decoration[]): void;
+	/**
+	 * Label the lines by their indexes, the lines are numbered with a CSS counter when `label` is undefined.
+	 */
+	setLineNumbers(label: ((index: number) => string) | undefined): void;
+	/**
+	 * Only render the lines around the visible part of the output, the lines must have a fixed height.
+	 */
+	setVirtual(virtual: boolean): void;
+	/**
+	 * Give each line its indentation in `--wrapping-indent`, so its wrapped rows can be indented the same.
+	 * The indentation is not given when `tabSize` is undefined.
+	 */
+	setWrappingIndent(tabSize: number | undefined): void;
+	dispose(): void;
+}
+
+interface RenderedLine {
+	readonly line: TokenizedLine;
+	readonly decorations: LineDecorations;
+	readonly element: HTMLElement;
+}
+
+/**
+ * Renders the tokenized lines into the output with the same markup as `codeToHtml`.
+ *
+ * Every `.line` element is followed by a `\n` text node,
+ * so a line can be replaced without touching its siblings.
+ *
+ * In virtual mode, the `<code>` element is padded to the height of the lines which are not rendered,
+ * and the index of its first line is kept in `data-first-line`.
+ * The elements of the lines which stay in the window are kept when it moves or the lines change.
+ */
+export function createLinesView(output: HTMLElement, onDidPatch?: (patch: LinesPatch) => void): LinesView {
+	const doc = output.ownerDocument;
+
+	let code: HTMLElement | undefined;
+	let line_elements: HTMLElement[] = [];
+
+	let lines: readonly TokenizedLine[] = [];
+	let decorations: readonly Decoration[] = [];
+	let line_decorations: LineDecorations[] = [];
+	let line_number: ((index: number) => string) | undefined;
+	let wrapping_tab_size: number | undefined;
+
+	let virtual = false;
+	// the lines rendered in virtual mode
+	let first = 0;
+	let last = 0;
+	let rendered: RenderedLine[] = [];
+
+	const renderLine = (index: number) => renderTokens(lines[index].tokens, line_decorations[index].inline);
+	const lineClassName = (index: number) => `line ${line_decorations[index].className}`.trimEnd();
+	const lineStyle = (index: number) => {
+		const { style } = line_decorations[index];
+		if (wrapping_tab_size === void 0) {
+			return style;
+		}
+		const [indent] = visibleWidthLeadingSpace(lines[index].text, wrapping_tab_size);
+		return indent === 0 ? style : `--wrapping-indent:${indent}${style && ";"}${style}`;
+	};
+
+	const lineHtml = (index: number) => {
+		const style = lineStyle(index);
+		let attributes = `class="${escapeHtml(lineClassName(index))}"`;
+		if (line_number) {
+			attributes += ` data-line-number="${escapeHtml(line_number(index))}"`;
+		}
+		if (style) {
+			attributes += ` style="${escapeHtml(style)}"`;
+		}
+		return `<span ${attributes}>${renderLine(index)}</span>\n`;
+	};
+
+	const createLine = (index: number) => {
+		const element = doc.createElement("span");
+		element.className = lineClassName(index);
+		if (line_number) {
+			element.dataset.lineNumber = line_number(index);
+		}
+		const style = lineStyle(index);
+		if (style) {
+			element.style.cssText = style;
+		}
+		element.innerHTML = renderLine(index);
+		return element;
+	};
+
+	const relabel = (from: number) => {
+		for (let index = from; index < line_elements.length; index++) {
+			const label = line_number!(index);
+			if (line_elements[index].dataset.lineNumber !== label) {
+				line_elements[index].dataset.lineNumber = label;
+			}
+		}
+	};
+
+	// render the line again where its decorations differ from `old`
+	const refreshLine = (element: HTMLElement, index: number, old: LineDecorations) => {
+		const current = line_decorations[index];
+		if (old === current) {
+			return;
+		}
+		if (old.className !== current.className) {
+			element.className = lineClassName(index);
+		}
+		if (old.style !== current.style) {
+			element.style.cssText = lineStyle(index);
+		}
+		if (!equalsDecorations(old.inline, current.inline)) {
+			element.innerHTML = renderLine(index);
+		}
+	};
+
+	// render the lines of the window, the lines still in the window are moved instead of rendered again
+	const renderWindow = () => {
+		const end = Math.min(last, lines.length);
+		const start = Math.min(first, end);
+
+		output.style.setProperty("--virtual-before", start.toString());
+		output.style.setProperty("--virtual-after", (lines.length - end).toString());
+
+		if (!code) {
+			const pre = doc.createElement("pre");
+			pre.className = "shiki";
+			code = doc.createElement("code");
+			pre.append(code);
+			output.replaceChildren(pre);
+			rendered = [];
+		}
+
+		const reusable = new Map(rendered.map((entry) => [entry.line, entry]));
+		const nodes: Node[] = [];
+		rendered = [];
+		for (let index = start; index < end; index++) {
+			const line = lines[index];
+			const entry = reusable.get(line);
+			let element: HTMLElement;
+			if (entry) {
+				reusable.delete(line);
+				element = entry.element;
+				refreshLine(element, index, entry.decorations);
+				if (!line_number) {
+					delete element.dataset.lineNumber;
+				} else if (element.dataset.lineNumber !== line_number(index)) {
+					element.dataset.lineNumber = line_number(index);
+				}
+			} else {
+				element = createLine(index);
+			}
+			rendered.push({ line, decorations: line_decorations[index], element });
+			nodes.push(element, doc.createTextNode("\n"));
+		}
+
+		code.replaceChildren(...nodes);
+		code.dataset.firstLine = start.toString();
+		line_elements = rendered.map(({ element }) => element);
+	};
+
+	// move the window when the visible lines are not all rendered
+	const updateWindow = () => {
+		if (!virtual || !code) {
+			return;
+		}
+
+		// the padding and the rendered lines add up to the height of every line
+		const line_height = code.offsetHeight / Math.max(lines.length, 1);
+		if (line_height === 0) {
+			return;
+		}
+
+		const visible_first = Math.floor(output.scrollTop / line_height);
+		const visible_last = Math.min(Math.ceil((output.scrollTop + output.clientHeight) / line_height), lines.length);
+		if (visible_first >= first && visible_last <= last) {
+			return;
+		}
+
+		// a screen above and below
+		const overscan = visible_last - visible_first;
+		first = Math.max(visible_first - overscan, 0);
+		last = visible_last + overscan;
+		renderWindow();
+	};
+
+	const resize_observer = typeof ResizeObserver === "function" ? new ResizeObserver(updateWindow) : void 0;
+	resize_observer?.observe(output);
+	output.addEventListener("scroll", updateWindow);
+
+	// render the lines whose decorations differ from `old_decorations`, which is aligned with the current lines
+	const refreshDecorations = (old_decorations: readonly LineDecorations[]) => {
+		line_elements.forEach((element, index) => refreshLine(element, index, old_decorations[index]));
+	};
+
+	return {
+		get lines() {
+			return lines;
+		},
+
+		render(new_lines) {
+			const deleteCount = lines.length;
+			lines = new_lines;
+			line_decorations = splitDecorations(lines, decorations);
+
+			if (virtual) {
+				renderWindow();
+				updateWindow();
+				onDidPatch?.({ start: 0, deleteCount, lines });
+				return;
+			}
+
+			const html = lines.map((_, index) => lineHtml(index)).join("");
+			output.innerHTML = `<pre class="shiki"><code>${html}</code></pre>`;
+
+			code = output.querySelector("code")!;
+			line_elements = Array.from(code.children) as HTMLElement[];
+
+			onDidPatch?.({ start: 0, deleteCount, lines });
+		},
+
+		patch({ start, deleteCount, lines: patched }) {
+			if (!code) {
+				this.render(patched);
+				return;
+			}
+
+			lines = lines.slice(0, start).concat(patched, lines.slice(start + deleteCount));
+
+			if (virtual) {
+				line_decorations = splitDecorations(lines, decorations);
+				renderWindow();
+				updateWindow();
+				onDidPatch?.({ start, deleteCount, lines: patched });
+				return;
+			}
+
+			// the offsets of the following lines may have moved, so are their decorations
+			const old_decorations = line_decorations;
+			line_decorations = splitDecorations(lines, decorations);
+
+			const removed = line_elements.slice(start, start + deleteCount);
+			const anchor = line_elements[start + deleteCount] || null;
+
+			for (const element of removed) {
+				element.nextSibling?.remove();
+				element.remove();
+			}
+
+			const added = patched.map((_, i) => createLine(start + i));
+			for (const element of added) {
+				code.insertBefore(element, anchor);
+				code.insertBefore(doc.createTextNode("\n"), anchor);
+			}
+
+			line_elements.splice(start, deleteCount, ...added);
+
+			// the following lines are numbered by their indexes
+			if (line_number && deleteCount !== patched.length) {
+				relabel(start + patched.length);
+			}
+
+			refreshDecorations(
+				old_decorations
+					.slice(0, start)
+					.concat(line_decorations.slice(start, start + patched.length), old_decorations.slice(start + deleteCount)),
+			);
+
+			onDidPatch?.({ start, deleteCount, lines: patched });
+		},
+
+		setDecorations(new_decorations) {
+			decorations = new_decorations;
+
+			const old_decorations = line_decorations;
+			line_decorations = splitDecorations(lines, decorations);
+			if (virtual) {
+				renderWindow();
+			} else {
+				refreshDecorations(old_decorations);
+			}
+		},
+
+		setLineNumbers(label) {
+			line_number = label;
+			if (virtual) {
+				renderWindow();
+			} else if (line_number) {
+				relabel(0);
+			} else {
+				for (const element of line_elements) {
+					delete element.dataset.lineNumber;
+				}
+			}
+		},
+
+		setVirtual(new_virtual) {
+			if (virtual === new_virtual) {
+				return;
+			}
+			virtual = new_virtual;
+			output.classList.toggle("virtual", virtual);
+
+			// start from an empty window, it moves to the visible lines once the height is known
+			first = 0;
+			last = 0;
+			code = void 0;
+			this.render(lines);
+		},
+
+		setWrappingIndent(tab_size) {
+			if (wrapping_tab_size === tab_size) {
+				return;
+			}
+			wrapping_tab_size = tab_size;
+			if (code) {
+				// the lines are rendered again, kept lines would keep their old indentation
+				code = void 0;
+				this.render(lines);
+			}
+		},
+
+		dispose() {
+			resize_observer?.disconnect();
+			output.removeEventListener("scroll", updateWindow);
+		},
+	};
+}
+
+/**
+ * The `.line` element of a line, undefined when the line is not rendered.
+ */
+export function lineElement(output: HTMLElement, index: number): HTMLElement | undefined {
+	const code = output.querySelector("code");
+	if (!code) {
+		return void 0;
+	}
+	return code.children[index - Number(code.dataset.firstLine || 0)] as HTMLElement | undefined;
+}
+
+/**
+ * The index of the line of a `.line` element.
+ */
+export function lineIndexOf(line: Element): number {
+	let index = Number(line.parentElement!.dataset.firstLine || 0);
+	for (let element = line.previousElementSibling; element; element = element.previousElementSibling) {
+		index++;
+	}
+	return index;
+}
+
+const no_decorations: LineDecorations = { inline: [], className: "", style: "" };
+
+/**
+ * Clip the decorations to the lines they cover.
+ */
+export function splitDecorations(
+	lines: readonly TokenizedLine[],
+	decorations: readonly Decoration[],
+): LineDecorations[] {
+	if (decorations.length === 0) {
+		return lines.map(() => no_decorations);
+	}
+
+	const inline: InlineDecoration[][] = lines.map(() => []);
+	const class_names: string[][] = lines.map(() => []);
+	const styles: string[][] = lines.map(() => []);
+	const line_starts = lineStarts(lines);
+
+	for (const { start, end, className = "", style = "", lineClassName, lineStyle } of decorations) {
+		for (let index = findLine(line_starts, start); index < lines.length && line_starts[index] <= end; index++) {
+			const line_start = line_starts[index];
+			const line_end = line_start + lines[index].text.length;
+			if (start > line_end || (end === line_start && start !== end)) {
+				continue;
+			}
+
+			if (className || style) {
+				inline[index].push({
+					start: Math.max(start, line_start) - line_start,
+					end: Math.min(end, line_end) - line_start,
+					className,
+					style,
+				});
+			}
+			if (lineClassName) {
+				class_names[index].push(lineClassName);
+			}
+			if (lineStyle) {
+				styles[index].push(lineStyle);
+			}
+		}
+	}
+
+	return lines.map((_, index) =>
+		inline[index].length === 0 && class_names[index].length === 0 && styles[index].length === 0
+			? no_decorations
+			: { inline: inline[index], className: class_names[index].join(" "), style: styles[index].join(";") },
+	);
+}
+
+function equalsDecorations(a: readonly InlineDecoration[], b: readonly InlineDecoration[]): boolean {
+	if (a === b) {
+		return true;
+	}
+	if (a.length !== b.length) {
+		return false;
+	}
+	return a.every(
+		(d, i) => d.start === b[i].start && d.end === b[i].end && d.className === b[i].className && d.style === b[i].style,
+	);
+}
+
+/**
+ * Render the tokens of a line, the tokens are split where the decorations start and end.
+ */
+export function renderTokens(
+	tokens: readonly ThemedToken[],
+	decorations: readonly InlineDecoration[] = [],
+): string {
+	let html = "";
+	for (const token of tokens) {
+		const style = tokenStyle(token);
+		if (decorations.length === 0) {
+			html += renderSpan(token.content, "", style);
+			continue;
+		}
+
+		const token_end = token.offset + token.content.length;
+		const boundaries = new Set([token.offset, token_end]);
+		for (const { start, end } of decorations) {
+			for (const boundary of [start, end]) {
+				if (boundary > token.offset && boundary < token_end) {
+					boundaries.add(boundary);
+				}
+			}
+		}
+
+		const points = Array.from(boundaries).sort((a, b) => a - b);
+		for (let i = 0; i < points.length - 1; i++) {
+			const start = points[i];
+			const end = points[i + 1];
+			const covering = decorations.filter((d) => d.start <= start && d.end >= end && d.start !== d.end);
+			const class_name = covering
+				.map((d) => d.className)
+				.filter(Boolean)
+				.join(" ");
+			// the styles of the decorations override the token style
+			const piece_style = [style, ...covering.map((d) => d.style)].filter(Boolean).join(";");
+			html += renderSpan(token.content.slice(start - token.offset, end - token.offset), class_name, piece_style);
+		}
+	}
+	return html;
+}
+
+function renderSpan(content: string, class_name: string, style: string): string {
+	let attributes = "";
+	if (class_name) {
+		attributes += ` class="${escapeHtml(class_name)}"`;
+	}
+	if (style) {
+		attributes += ` style="${escapeHtml(style)}"`;
+	}
+	return `<span${attributes}>${escapeHtml(content)}</span>`;
+}
+
+/**
+ * Mirrors the inline style shiki generates for a token.
+ */
+function tokenStyle(token: ThemedToken): string {
+	const style: Record<string, string> = {};
+
+	if (token.color) {
+		style.color = token.color;
+	}
+	if (token.bgColor) {
+		style["background-color"] = token.bgColor;
+	}
+	if (token.fontStyle !== void 0 && token.fontStyle > 0) {
+		if (token.fontStyle & FontStyle.Italic) {
+			style["font-style"] = "italic";
+		}
+		if (token.fontStyle & FontStyle.Bold) {
+			style["font-weight"] = "bold";
+		}
+
+		const decorations = [];
+		if (token.fontStyle & FontStyle.Underline) {
+			decorations.push("underline");
+		}
+		if (token.fontStyle & FontStyle.Strikethrough) {
+			decorations.push("line-through");
+		}
+		if (decorations.length > 0) {
+			style["text-decoration"] = decorations.join(" ");
+		}
+	}
+
+	Object.assign(style, token.htmlStyle);
+
+	return Object.entries(style)
+		.map(([key, value]) => `${key}:${value}`)
+		.join(";");
+}
+
+// `FontStyle` is a `const enum` in shiki, it is copied here to avoid importing values from shiki.
+const FontStyle = {
+	Italic: 1,
+	Bold: 2,
+	Underline: 4,
+	Strikethrough: 8,
+} as const;
+
+export function escapeHtml(text: string): string {
+	return text.replaceAll(/[&<>"]/g, (c) => html_entities[c]);
+}
+
+const html_entities: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+};
@@ -1,5 +1,9 @@
 export function hookScroll(input: HTMLElement, output: HTMLElement) {
 	const onScroll = () => {
+		// a virtual output only renders some of the lines, it is made as wide as the textarea
+		if (output.classList.contains("virtual")) {
+			output.style.setProperty("--virtual-width", `${input.scrollWidth}px`);
+		}
 		output.scrollTo(input.scrollLeft, input.scrollTop);
 	};
 
@@ -18,7 +18,7 @@ const style = `.shikicode.input, .shikicode.output {
 	outline: none;
 	background-color: transparent;
 	padding-left: 2em;
-	width: 100%;
+	width: calc(100% - var(--minimap-width, 0px));
 	height: 100%;
 	overflow: auto;
 	resize: none;
@@ -28,6 +28,7 @@ const style = `.shikicode.input, .shikicode.output {
 }
 
 .shikicode.output {
+	right: var(--minimap-width, 0px);
 	counter-reset: shiki-line 0;
 	overflow: hidden;
 	pointer-events: none;
@@ -37,6 +38,17 @@ const style = `.shikicode.input, .shikicode.output {
 	display: contents;
 }
 
+/* the lines which are not rendered are replaced by padding */
+.shikicode.output.virtual {
+	counter-reset: shiki-line var(--virtual-before);
+}
+
+.shikicode.output.virtual code {
+	display: block;
+	padding: calc(var(--virtual-before) * 1lh) 0 calc(var(--virtual-after) * 1lh);
+	min-width: var(--virtual-width);
+}
+
 .shikicode.output .line {
 	counter-increment: shiki-line 1;
 }
@@ -53,6 +65,10 @@ const style = `.shikicode.input, .shikicode.output {
 	text-align: right;
 }
 
+.shikicode.output .line[data-line-number]::before {
+	content: attr(data-line-number);
+}
+
 .shikicode.output.line-numbers .line::before {
 	padding-right: 2em;
 	width: 5em;
@@ -62,26 +78,225 @@ const style = `.shikicode.input, .shikicode.output {
 .shikicode.input.line-numbers {
 	padding-left: 5em;
 }
+
+.shikicode.input.word-wrap, .shikicode.output.word-wrap {
+	/* the textarea and the output wrap at the same width, with or without a scrollbar */
+	scrollbar-gutter: stable;
+}
+
+.shikicode.input.word-wrap, .shikicode.output.word-wrap code {
+	overflow-wrap: break-word;
+	white-space: pre-wrap;
+}
+
+/* the continuation lines start after the gutter, so the gutter moves into the padding */
+.shikicode.output.word-wrap {
+	padding-left: 2em;
+}
+
+.shikicode.output.word-wrap .line::before {
+	position: static;
+	margin-left: -2em;
+}
+
+.shikicode.output.word-wrap.line-numbers {
+	padding-left: 5em;
+}
+
+.shikicode.output.word-wrap.line-numbers .line::before {
+	margin-left: -5em;
+}
+
+/* the rows after the first are indented as much as the first one */
+.shikicode.output.word-wrap.wrapping-indent .line {
+	display: inline-block;
+	box-sizing: border-box;
+	padding-left: calc(var(--wrapping-indent, 0) * 1ch);
+	width: 100%;
+	text-indent: calc(var(--wrapping-indent, 0) * -1ch);
+}
+
+.shikicode.output.word-wrap.wrapping-indent .line::before {
+	text-indent: 0;
+}
+
+.shikicode.word-wrap-bounded {
+	padding-right: max(0px, 100% - var(--minimap-width, 0px) - 2em - var(--word-wrap-column) * 1ch);
+}
+
+.shikicode.word-wrap-bounded.line-numbers {
+	padding-right: max(0px, 100% - var(--minimap-width, 0px) - 5em - var(--word-wrap-column) * 1ch);
+}
+
+.shikicode.output .marker {
+	text-decoration: underline wavy var(--marker-color);
+	text-decoration-skip-ink: none;
+}
+
+.shikicode.output .marker-error {
+	--marker-color: #e51400;
+}
+
+.shikicode.output .marker-warning {
+	--marker-color: #bf8803;
+}
+
+.shikicode.output .marker-info {
+	--marker-color: #1a85ff;
+}
+
+.shikicode.output .marker-hint {
+	text-decoration-style: dotted;
+	--marker-color: rgb(128 128 128 / 70%);
+}
+
+.shikicode.output .line.marker-line-info::before {
+	--marker-color: #1a85ff;
+}
+
+.shikicode.output .line.marker-line-warning::before {
+	--marker-color: #bf8803;
+}
+
+.shikicode.output .line.marker-line-error::before {
+	--marker-color: #e51400;
+}
+
+.shikicode.output .line[class*="marker-line-"]::before {
+	background: radial-gradient(circle closest-side, var(--marker-color) 70%, transparent 80%) left 0.3em center / 0.7em 0.7em
+		no-repeat var(--bg);
+}
+
+.shikicode.marker-tooltip {
+	position: absolute;
+	z-index: 1;
+	box-shadow: 0 2px 8px rgb(0 0 0 / 36%);
+	border: 1px solid rgb(128 128 128 / 50%);
+	background-color: var(--bg);
+	padding: 4px 8px;
+	max-width: 40em;
+	color: var(--fg);
+	pointer-events: none;
+	white-space: pre-wrap;
+}
+
+.shikicode.marker-tooltip[hidden] {
+	display: none;
+}
+
+.shikicode.marker-tooltip .marker-message::before {
+	content: "● ";
+	color: var(--marker-color);
+}
+
+.shikicode.marker-tooltip .marker-error {
+	--marker-color: #e51400;
+}
+
+.shikicode.marker-tooltip .marker-warning {
+	--marker-color: #bf8803;
+}
+
+.shikicode.marker-tooltip .marker-info {
+	--marker-color: #1a85ff;
+}
+
+.shikicode.marker-tooltip .marker-hint {
+	--marker-color: rgb(128 128 128 / 70%);
+}
+
+.shikicode.marker-tooltip .marker-source {
+	opacity: 0.7;
+}
+`;
+
+/**
+ * The rules switching between the color variants of a theme, the default variant comes first.
+ *
+ * The default variant is overridden by `dark` when the system prefers a dark color scheme,
+ * which is overridden by a class named after a variant on the container or one of its ancestors.
+ */
+export function themeStyle(variants: readonly string[]): string {
+	const container = `[data-shikicode-themes="${variants.join(" ")}"]`;
+
+	let css = variantStyle(variants[0], [container]);
+	if (variants.includes("dark")) {
+		css += `\n@media (prefers-color-scheme: dark) {\n${variantStyle("dark", [container])}}\n`;
+	}
+	for (const variant of variants) {
+		css += `\n${variantStyle(variant, [`.${variant} ${container}`, `${container}.${variant}`])}`;
+	}
+	return css;
+}
+
+function variantStyle(variant: string, containers: readonly string[]): string {
+	// without specificity, so decorations can override the token colors
+	// `.code-block` is code highlighted by the plugins, e.g. in a hover
+	const tokens = containers.flatMap((container) => [
+		`:where(${container} .shikicode.output .line > span)`,
+		`:where(${container} .shikicode .code-block .line > span)`,
+	]);
+
+	return `${containers.join(", ")} {
+	--fg: var(--fg-${variant});
+	--bg: var(--bg-${variant});
+}
+
+${tokens.join(", ")} {
+	background-color: var(--shiki-${variant}-bg);
+	color: var(--shiki-${variant});
+	font-weight: var(--shiki-${variant}-font-weight);
+	font-style: var(--shiki-${variant}-font-style);
+	text-decoration: var(--shiki-${variant}-text-decoration);
+}
 `;
+}
 
 function noop() {}
 
-export function injectStyle(doc: Document) {
-	const hash = `shikicode-${djb2(style).toString(36)}`;
-	if (doc.getElementById(hash)) return noop;
-	const element = doc.createElement("style");
-	element.id = hash;
-	element.append(doc.createTextNode(""));
-	doc.head.append(element);
-
-	try {
-		const sheet = getSheet(element, doc);
-		sheet.insertRule(style);
-	} catch (e) {
-		element.append(doc.createTextNode(style));
+// the number of editors and plugins using each injected style
+const style_users = new WeakMap<Element, number>();
+
+/**
+ * Inject the style once per document, it is removed once every editor and plugin which injected it removed it.
+ */
+export function injectStyle(doc: Document, css = style) {
+	const hash = `shikicode-${djb2(css).toString(36)}`;
+	let element = doc.getElementById(hash);
+	if (!element) {
+		element = doc.createElement("style");
+		element.id = hash;
+		element.append(doc.createTextNode(""));
+		doc.head.append(element);
+		style_users.set(element, 0);
+
+		try {
+			const sheet = getSheet(element as HTMLStyleElement, doc);
+			sheet.insertRule(css);
+		} catch (e) {
+			element.append(doc.createTextNode(css));
+		}
 	}
+
+	// a style put in the page some other way is left there
+	const injected = element;
+	if (!style_users.has(injected)) {
+		return noop;
+	}
+
+	style_users.set(injected, style_users.get(injected)! + 1);
+	let removed = false;
 	return () => {
-		element.remove();
+		if (removed) {
+			return;
+		}
+		removed = true;
+		const users = style_users.get(injected)! - 1;
+		style_users.set(injected, users);
+		if (users === 0) {
+			style_users.delete(injected);
+			injected.remove();
+		}
 	};
 }
 
@@ -0,0 +1,318 @@
+import type { BundledLanguage, GrammarState, Highlighter, ThemedToken } from "shiki";
+
+export interface TokenizedLine {
+	readonly text: string;
+	readonly tokens: readonly ThemedToken[];
+	/**
+	 * The grammar state at the end of the line.
+	 * It is `undefined` for plain text, which has no grammar.
+	 */
+	readonly state: GrammarState | undefined;
+}
+
+export interface TokenizeOptions {
+	readonly lang: string;
+	/**
+	 * A single theme, or a theme per color variant.
+	 * Variants are rendered as `--shiki-<variant>` CSS variables only, without a default color.
+	 */
+	readonly theme: string | Readonly<Record<string, string>>;
+	/**
+	 * Include the TextMate scopes of the tokens in `explanation`, tokenizing takes about twice as long.
+	 */
+	readonly scopes?: boolean;
+	/**
+	 * The most lines `reset` and `update` tokenize at once when the tokenizer has `onPatch`,
+	 * the following lines are tokenized in the background. Defaults to every line.
+	 */
+	readonly maxLines?: number;
+}
+
+/**
+ * Describes how the tokenized lines changed:
+ * `deleteCount` old lines starting at `start` are replaced by `lines`.
+ */
+export interface LinesPatch {
+	readonly start: number;
+	readonly deleteCount: number;
+	readonly lines: readonly TokenizedLine[];
+}
+
+export interface Tokenizer {
+	readonly lines: readonly TokenizedLine[];
+	/**
+	 * Drop every cached line and tokenize the whole document again.
+	 */
+	reset(value: string, options: TokenizeOptions): LinesPatch;
+	/**
+	 * Re-tokenize from the first edited line until the grammar state converges with the cached one.
+	 */
+	update(value: string): LinesPatch;
+	dispose(): void;
+}
+
+/**
+ * With `onPatch`, the lines beyond `maxLines` are plain text, or keep their outdated tokens,
+ * until they are tokenized in the background and passed to `onPatch`.
+ */
+export function createTokenizer(highlighter: Highlighter, onPatch?: (patch: LinesPatch) => void): Tokenizer {
+	let lines: TokenizedLine[] = [];
+	let options: TokenizeOptions = { lang: "text", theme: "none" };
+	// the lines before `valid` are tokenized, the following lines are left to the background
+	let valid = 0;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const tokenizeLine = (text: string, state: GrammarState | undefined): TokenizedLine => {
+		const { theme } = options;
+		const result = highlighter.codeToTokens(text, {
+			lang: options.lang as BundledLanguage,
+			...(typeof theme === "string" ? { theme } : { themes: theme, defaultColor: false }),
+			includeExplanation: options.scopes ? "scopeName" : false,
+			grammarState: state,
+		});
+
+		return {
+			text,
+			tokens: result.tokens[0] || [],
+			state: result.grammarState,
+		};
+	};
+
+	const maxLines = () => (onPatch && options.maxLines) || Infinity;
+
+	const tokenizeRest = () => {
+		timer = void 0;
+
+		const start = valid;
+		const end = Math.min(lines.length, start + maxLines());
+		let state = start > 0 ? lines[start - 1].state : void 0;
+		const patched: TokenizedLine[] = [];
+		for (let i = start; i < end; i++) {
+			const line = tokenizeLine(lines[i].text, state);
+			state = line.state;
+			patched.push(line);
+		}
+
+		lines = lines.slice(0, start).concat(patched, lines.slice(end));
+		valid = end;
+		schedule();
+
+		onPatch!({ start, deleteCount: patched.length, lines: patched });
+	};
+
+	const schedule = () => {
+		if (onPatch && timer === void 0 && valid < lines.length) {
+			timer = setTimeout(tokenizeRest);
+		}
+	};
+
+	const update = (value: string): LinesPatch => {
+		const new_text = splitLines(value);
+		const old_lines = lines;
+		const old_valid = valid;
+
+		const [prefix, suffix] = diffLines(old_lines, new_text);
+
+		const delta = new_text.length - old_lines.length;
+		const edited_end = new_text.length - suffix;
+
+		const patched: TokenizedLine[] = [];
+		let converged = false;
+
+		// the lines from an edit beyond the tokenized lines are left to the background
+		let i = prefix;
+		if (prefix <= old_valid) {
+			let state = prefix > 0 ? old_lines[prefix - 1].state : void 0;
+			const end = Math.min(new_text.length, prefix + maxLines());
+			for (; i < end; i++) {
+				// the line is unchanged, we can stop once it starts from the same state as before
+				const old_index = i - delta;
+				if (i >= edited_end && old_index <= old_valid) {
+					const old_state = old_index > 0 ? old_lines[old_index - 1].state : void 0;
+					if (equalsState(state, old_state)) {
+						converged = true;
+						break;
+					}
+				}
+
+				const line = tokenizeLine(new_text[i], state);
+				state = line.state;
+				patched.push(line);
+			}
+			valid = converged ? old_valid + delta : i;
+		}
+
+		for (let j = i; j < edited_end; j++) {
+			patched.push(plainLine(new_text[j]));
+		}
+
+		const deleteCount = Math.max(i, edited_end) - delta - prefix;
+		lines = old_lines.slice(0, prefix).concat(patched, old_lines.slice(prefix + deleteCount));
+		schedule();
+
+		return { start: prefix, deleteCount, lines: patched };
+	};
+
+	return {
+		get lines() {
+			return lines;
+		},
+
+		reset(value, new_options) {
+			options = new_options;
+
+			const deleteCount = lines.length;
+			lines = [];
+			valid = 0;
+			return { ...update(value), deleteCount };
+		},
+
+		update,
+
+		dispose() {
+			clearTimeout(timer);
+			timer = void 0;
+			lines = [];
+		},
+	};
+}
+
+/**
+ * A line rendered as plain text, before it is highlighted.
+ */
+export function plainLine(text: string): TokenizedLine {
+	return { text, tokens: text ? [{ content: text, offset: 0 }] : [], state: void 0 };
+}
+
+/**
+ * A token of a line as rendered, split where the TextMate scopes change.
+ */
+export interface TokenInfo {
+	readonly text: string;
+	/**
+	 * The offset of the first character, relative to the value.
+	 */
+	readonly start: number;
+	readonly end: number;
+	/**
+	 * The color with a single theme, it is `undefined` with a theme per color variant.
+	 */
+	readonly color: string | undefined;
+	/**
+	 * The colors with a theme per color variant, by variant.
+	 */
+	readonly variantColors: Readonly<Record<string, string>> | undefined;
+	/**
+	 * The scopes from the outermost to the innermost, empty for plain text.
+	 */
+	readonly scopes: readonly string[];
+}
+
+/**
+ * The tokens of a line starting at `line_start`, each with the scopes of its text.
+ */
+export function lineTokens(line: TokenizedLine, line_start: number): TokenInfo[] {
+	const tokens: TokenInfo[] = [];
+
+	for (const token of line.tokens) {
+		let variant_colors: Record<string, string> | undefined;
+		for (const [property, color] of Object.entries(token.htmlStyle || {})) {
+			// the font style of a variant is in `--shiki-<variant>-font-style` and the like
+			if (property.startsWith("--shiki-") && !/-(font-style|font-weight|text-decoration)$/.test(property)) {
+				(variant_colors ||= {})[property.slice("--shiki-".length)] = color;
+			}
+		}
+
+		const parts = token.explanation || [{ content: token.content, scopes: [] }];
+		let start = line_start + token.offset;
+		for (const { content, scopes } of parts) {
+			tokens.push({
+				text: content,
+				start,
+				end: start + content.length,
+				color: token.color,
+				variantColors: variant_colors,
+				scopes: scopes.map(({ scopeName }) => scopeName),
+			});
+			start += content.length;
+		}
+	}
+
+	return tokens;
+}
+
+export function splitLines(value: string): string[] {
+	return value.split("\n");
+}
+
+/**
+ * The offset of the first character of every line.
+ */
+export function lineStarts(lines: readonly TokenizedLine[]): number[] {
+	const starts: number[] = [];
+	let offset = 0;
+	for (const line of lines) {
+		starts.push(offset);
+		offset += line.text.length + 1;
+	}
+	return starts;
+}
+
+/**
+ * The index of the line containing `offset`.
+ */
+export function findLine(line_starts: readonly number[], offset: number): number {
+	let low = 0;
+	let high = line_starts.length - 1;
+	while (low < high) {
+		const mid = (low + high + 1) >> 1;
+		if (line_starts[mid] <= offset) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return low;
+}
+
+/**
+ * Count the lines shared at the start and at the end of both documents.
+ * The two counts never overlap.
+ */
+export function diffLines(
+	old_lines: readonly TokenizedLine[],
+	new_text: readonly string[],
+): [prefix: number, suffix: number] {
+	const min_length = Math.min(old_lines.length, new_text.length);
+
+	let prefix = 0;
+	while (prefix < min_length && old_lines[prefix].text === new_text[prefix]) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < min_length - prefix &&
+		old_lines[old_lines.length - 1 - suffix].text === new_text[new_text.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	return [prefix, suffix];
+}
+
+function equalsState(a: GrammarState | undefined, b: GrammarState | undefined): boolean {
+	if (a === b) {
+		return true;
+	}
+	if (a === void 0 || b === void 0) {
+		return false;
+	}
+
+	const stack = a.getInternalStack();
+	const other = b.getInternalStack();
+	if (stack === void 0 || other === void 0) {
+		return stack === other;
+	}
+	return stack.equals(other);
+}
@@ -0,0 +1,353 @@
+import type { Highlighter, ThemeRegistrationResolved } from "shiki";
+import {
+	createTokenizer,
+	diffLines,
+	plainLine,
+	splitLines,
+	type LinesPatch,
+	type TokenizedLine,
+	type TokenizeOptions,
+	type Tokenizer,
+} from "./tokenize.js";
+
+/**
+ * Anything messages can be exchanged with, such as a `Worker` or the worker global scope.
+ */
+export interface MessageEndpoint {
+	postMessage(message: unknown): void;
+	addEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+	removeEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+}
+
+export type WorkerTheme = Pick<ThemeRegistrationResolved, "name" | "type" | "fg" | "bg">;
+
+/**
+ * A highlighter adapter that runs shiki in a worker.
+ * It is passed to `create` with the `worker` option, the editor tokenizes with it instead of its highlighter.
+ */
+export interface WorkerHighlighter {
+	getTheme(name: string): WorkerTheme;
+	getLoadedThemes(): string[];
+	getLoadedLanguages(): string[];
+	loadTheme(...themes: string[]): Promise<void>;
+	loadLanguage(...langs: string[]): Promise<void>;
+	/**
+	 * Create a tokenizer whose `reset` and `update` render the edited lines as plain text.
+	 * The highlighted lines are passed to `onPatch` once the worker responds.
+	 */
+	createTokenizer(onPatch: (patch: LinesPatch) => void): Tokenizer;
+	/**
+	 * Stop listening to the worker. The worker itself is not terminated.
+	 */
+	dispose(): void;
+}
+
+export interface WorkerHighlighterOptions {
+	readonly themes?: readonly string[];
+	readonly langs?: readonly string[];
+	/**
+	 * Called when the worker fails to tokenize, e.g. with a language it did not load.
+	 * The lines keep their previous highlighting, and the tokenizer starts over with the next value.
+	 */
+	readonly onError?: (error: Error) => void;
+}
+
+type Request =
+	| { type: "load"; id: number; themes: readonly string[]; langs: readonly string[] }
+	| { type: "reset"; tokenizer: number; version: number; value: string; options: TokenizeOptions }
+	| { type: "update"; tokenizer: number; version: number; value: string }
+	| { type: "dispose"; tokenizer: number };
+
+type Response =
+	| { type: "load"; id: number; themes: WorkerTheme[]; langs: string[]; error?: string }
+	| { type: "patch"; tokenizer: number; version: number; patch: LinesPatch }
+	| { type: "error"; tokenizer: number; version: number; error: string };
+
+/**
+ * Serve a highlighter created inside a worker to `createWorkerHighlighter`.
+ *
+ * ```ts
+ * // worker.js
+ * const highlighter = await createHighlighter({ langs: [], themes: [] });
+ * exposeHighlighter(highlighter);
+ * ```
+ */
+export function exposeHighlighter(
+	highlighter: Highlighter,
+	endpoint = globalThis as unknown as MessageEndpoint,
+): () => void {
+	const tokenizers = new Map<number, Tokenizer>();
+
+	const post = (response: Response) => {
+		endpoint.postMessage(response);
+	};
+
+	const onMessage = async (e: MessageEvent<Request>) => {
+		const request = e.data;
+		switch (request.type) {
+			case "load": {
+				try {
+					await highlighter.loadTheme(...(request.themes as Parameters<Highlighter["loadTheme"]>));
+					await highlighter.loadLanguage(...(request.langs as Parameters<Highlighter["loadLanguage"]>));
+					post({ type: "load", id: request.id, ...loadedInfo(highlighter) });
+				} catch (error) {
+					post({ type: "load", id: request.id, ...loadedInfo(highlighter), error: String(error) });
+				}
+				break;
+			}
+
+			case "reset":
+			case "update": {
+				let tokenizer = tokenizers.get(request.tokenizer);
+				if (!tokenizer) {
+					tokenizer = createTokenizer(highlighter);
+					tokenizers.set(request.tokenizer, tokenizer);
+				}
+
+				try {
+					const { start, deleteCount, lines } =
+						request.type === "reset"
+							? tokenizer.reset(request.value, request.options)
+							: tokenizer.update(request.value);
+
+					// grammar states stay in the worker
+					const patch = {
+						start,
+						deleteCount,
+						lines: lines.map(({ text, tokens }) => ({ text, tokens, state: void 0 })),
+					};
+					post({ type: "patch", tokenizer: request.tokenizer, version: request.version, patch });
+				} catch (error) {
+					tokenizers.delete(request.tokenizer);
+					post({
+						type: "error",
+						tokenizer: request.tokenizer,
+						version: request.version,
+						error: String(error),
+					});
+				}
+				break;
+			}
+
+			case "dispose": {
+				tokenizers.get(request.tokenizer)?.dispose();
+				tokenizers.delete(request.tokenizer);
+				break;
+			}
+		}
+	};
+
+	endpoint.addEventListener("message", onMessage);
+
+	return () => {
+		endpoint.removeEventListener("message", onMessage);
+		tokenizers.forEach((tokenizer) => tokenizer.dispose());
+		tokenizers.clear();
+	};
+}
+
+function loadedInfo(highlighter: Highlighter) {
+	return {
+		themes: highlighter.getLoadedThemes().map((name) => {
+			const { type, fg, bg } = highlighter.getTheme(name);
+			return { name, type, fg, bg };
+		}),
+		langs: highlighter.getLoadedLanguages(),
+	};
+}
+
+/**
+ * Connect to a worker which called `exposeHighlighter`.
+ *
+ * ```ts
+ * const worker = new Worker(new URL("./worker.js", import.meta.url), { type: "module" });
+ * const worker_highlighter = await createWorkerHighlighter(worker, { themes: ["github-dark"], langs: ["tsx"] });
+ * // the themes only, for their colors
+ * const highlighter = await createHighlighter({ themes: ["github-dark"], langs: [] });
+ * shikiCode().create(container, highlighter, { language: "tsx", theme: "github-dark", worker: worker_highlighter });
+ * ```
+ */
+export async function createWorkerHighlighter(
+	endpoint: MessageEndpoint,
+	options: WorkerHighlighterOptions = {},
+): Promise<WorkerHighlighter> {
+	const { onError } = options;
+	const themes = new Map<string, WorkerTheme>([["none", { name: "none", type: "dark", fg: "", bg: "" }]]);
+	let langs: string[] = [];
+
+	let next_id = 0;
+	const pending_loads = new Map<number, (response: Extract<Response, { type: "load" }>) => void>();
+	const tokenizer_handlers = new Map<number, (response: Exclude<Response, { type: "load" }>) => void>();
+
+	const post = (request: Request) => {
+		endpoint.postMessage(request);
+	};
+
+	const onMessage = (e: MessageEvent<Response>) => {
+		const response = e.data;
+		if (response.type === "load") {
+			pending_loads.get(response.id)?.(response);
+			pending_loads.delete(response.id);
+			return;
+		}
+		tokenizer_handlers.get(response.tokenizer)?.(response);
+	};
+
+	endpoint.addEventListener("message", onMessage);
+
+	const load = (load_themes: readonly string[], load_langs: readonly string[]) => {
+		const id = next_id++;
+		return new Promise<void>((resolve, reject) => {
+			pending_loads.set(id, (response) => {
+				response.themes.forEach((theme) => themes.set(theme.name, theme));
+				langs = response.langs;
+
+				if (response.error) {
+					reject(new Error(response.error));
+				} else {
+					resolve();
+				}
+			});
+			post({ type: "load", id, themes: load_themes, langs: load_langs });
+		});
+	};
+
+	await load(options.themes || [], options.langs || []);
+
+	return {
+		getTheme(name) {
+			const theme = themes.get(name);
+			if (!theme) {
+				throw new Error(`Theme \`${name}\` not found, you may need to load it first`);
+			}
+			return theme;
+		},
+		getLoadedThemes() {
+			return Array.from(themes.keys()).filter((name) => name !== "none");
+		},
+		getLoadedLanguages() {
+			return langs;
+		},
+		loadTheme(...load_themes) {
+			return load(load_themes, []);
+		},
+		loadLanguage(...load_langs) {
+			return load([], load_langs);
+		},
+
+		createTokenizer(onPatch) {
+			const id = next_id++;
+
+			// `lines` is what the editor shows, `highlighted` mirrors the lines in the worker.
+			let lines: TokenizedLine[] = [];
+			let highlighted: TokenizedLine[] = [];
+
+			let value = "";
+			let options: TokenizeOptions | undefined;
+			let version = 0;
+			let in_flight = false;
+			let should_reset = false;
+
+			// Only one request is in flight, the latest value is sent once it settles.
+			const request = () => {
+				if (in_flight) {
+					return;
+				}
+				in_flight = true;
+
+				if (should_reset) {
+					should_reset = false;
+					post({ type: "reset", tokenizer: id, version, value, options: options! });
+				} else {
+					post({ type: "update", tokenizer: id, version, value });
+				}
+			};
+
+			const showPlain = (): LinesPatch => {
+				const new_text = splitLines(value);
+				const [prefix, suffix] = diffLines(lines, new_text);
+
+				const patched = new_text.slice(prefix, new_text.length - suffix).map(plainLine);
+				const deleteCount = lines.length - suffix - prefix;
+				lines = lines.slice(0, prefix).concat(patched, lines.slice(lines.length - suffix));
+
+				return { start: prefix, deleteCount, lines: patched };
+			};
+
+			tokenizer_handlers.set(id, (response) => {
+				in_flight = false;
+
+				if (response.type === "error") {
+					// the worker dropped its state, start over with the next request
+					highlighted = [];
+					should_reset = true;
+					onError?.(new Error(response.error));
+					if (response.version !== version) {
+						request();
+					}
+					return;
+				}
+
+				const { start, deleteCount, lines: patched } = response.patch;
+				highlighted = highlighted.slice(0, start).concat(patched, highlighted.slice(start + deleteCount));
+
+				// out of date, the response is discarded and the latest value is requested instead
+				if (response.version !== version) {
+					request();
+					return;
+				}
+
+				let first = 0;
+				while (first < lines.length && lines[first] === highlighted[first]) {
+					first++;
+				}
+
+				let last = lines.length;
+				while (last > first && lines[last - 1] === highlighted[last - 1]) {
+					last--;
+				}
+
+				if (first === last) {
+					return;
+				}
+
+				lines = highlighted.slice();
+				onPatch({ start: first, deleteCount: last - first, lines: lines.slice(first, last) });
+			});
+
+			return {
+				get lines() {
+					return lines;
+				},
+				reset(new_value, new_options) {
+					value = new_value;
+					options = new_options;
+					version++;
+					should_reset = true;
+
+					const patch = showPlain();
+					request();
+					return patch;
+				},
+				update(new_value) {
+					value = new_value;
+					version++;
+
+					const patch = showPlain();
+					request();
+					return patch;
+				},
+				dispose() {
+					tokenizer_handlers.delete(id);
+					post({ type: "dispose", tokenizer: id });
+				},
+			};
+		},
+
+		dispose() {
+			endpoint.removeEventListener("message", onMessage);
+			pending_loads.clear();
+			tokenizer_handlers.clear();
+		},
+	};
+}
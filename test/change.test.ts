@@ -0,0 +1,117 @@
+import { diffText, mapRanges } from "../src/change";
+import { composeEdits, selectionAfterEdits } from "../src/plugins/common";
+
+const range = (start: number, end: number) => ({ start, end });
+
+describe("diffText", () => {
+	test("no change", () => {
+		expect(diffText("abc", "abc")).toBeUndefined();
+	});
+
+	test("insert", () => {
+		expect(diffText("abc", "abXc", 3)).toEqual({ start: 2, end: 2, text: "X" });
+	});
+
+	test("delete", () => {
+		expect(diffText("abc", "ac", 1)).toEqual({ start: 1, end: 2, text: "" });
+	});
+
+	test("replace", () => {
+		expect(diffText("let a = 1;", "let b = 2;", 5)).toEqual({ start: 4, end: 9, text: "b = 2" });
+	});
+
+	test("repeated character is inserted at the caret", () => {
+		expect(diffText("aa", "aaa", 1)).toEqual({ start: 0, end: 0, text: "a" });
+		expect(diffText("aa", "aaa", 2)).toEqual({ start: 1, end: 1, text: "a" });
+		expect(diffText("aa", "aaa", 3)).toEqual({ start: 2, end: 2, text: "a" });
+	});
+
+	test("repeated character is deleted before the caret", () => {
+		expect(diffText("aaa", "aa", 0)).toEqual({ start: 0, end: 1, text: "" });
+		expect(diffText("aaa", "aa", 1)).toEqual({ start: 1, end: 2, text: "" });
+	});
+});
+
+describe("composeEdits", () => {
+	const value = "let a = 1;\nlet b = 2;";
+
+	test("no edits", () => {
+		expect(composeEdits(value, [])).toBeUndefined();
+	});
+
+	test("later edits are adjusted", () => {
+		const patch = composeEdits(value, [
+			{ value: "const", start: 11, end: 14 },
+			{ value: "const", start: 0, end: 3 },
+		])!;
+		expect(patch.start).toBe(0);
+		expect(patch.end).toBe(14);
+		expect(value.slice(0, patch.start) + patch.value + value.slice(patch.end)).toBe("const a = 1;\nconst b = 2;");
+	});
+
+	test("insertions at the same offset keep their order", () => {
+		const patch = composeEdits(value, [
+			{ value: "(", start: 8, end: 8 },
+			{ value: ")", start: 8, end: 8 },
+		])!;
+		expect(patch.value).toBe("()");
+	});
+
+	test("overlapping edits", () => {
+		expect(() =>
+			composeEdits(value, [
+				{ value: "", start: 0, end: 5 },
+				{ value: "", start: 4, end: 6 },
+			]),
+		).toThrow(RangeError);
+	});
+});
+
+describe("selectionAfterEdits", () => {
+	test("the mode of a single edit", () => {
+		const edit = { value: "const", start: 0, end: 3 };
+		expect(selectionAfterEdits([edit])).toEqual({ start: 0, end: 5 });
+		expect(selectionAfterEdits([{ ...edit, mode: "start" }])).toEqual({ start: 0, end: 0 });
+		expect(selectionAfterEdits([{ ...edit, mode: "end" }])).toEqual({ start: 5, end: 5 });
+	});
+
+	test("a caret after the last of several edits", () => {
+		const edits = [
+			{ value: "const", start: 11, end: 14 },
+			{ value: "const", start: 0, end: 3 },
+		];
+		expect(selectionAfterEdits(edits)).toEqual({ start: 18, end: 18 });
+		expect(selectionAfterEdits([{ ...edits[0], mode: "select" }, edits[1]])).toEqual({ start: 13, end: 18 });
+	});
+});
+
+describe("mapRanges", () => {
+	test("edits before the range move it", () => {
+		const [moved] = mapRanges([range(4, 7)], [{ start: 0, end: 1, text: "abc" }]);
+		expect([moved.start, moved.end]).toEqual([6, 9]);
+	});
+
+	test("edits after the range keep it", () => {
+		const ranges = [range(4, 7)];
+		expect(mapRanges(ranges, [{ start: 7, end: 7, text: "x" }])[0]).toBe(ranges[0]);
+	});
+
+	test("edits inside the range resize it", () => {
+		const [moved] = mapRanges([range(4, 7)], [{ start: 5, end: 6, text: "xyz" }]);
+		expect([moved.start, moved.end]).toEqual([4, 9]);
+	});
+
+	test("deleting the text collapses it", () => {
+		const [moved] = mapRanges([range(4, 7)], [{ start: 2, end: 8, text: "" }]);
+		expect([moved.start, moved.end]).toEqual([2, 2]);
+	});
+
+	test("changes are applied in order", () => {
+		const changes = [
+			{ start: 0, end: 0, text: "ab" },
+			{ start: 0, end: 1, text: "" },
+		];
+		const [moved] = mapRanges([range(4, 7)], changes);
+		expect([moved.start, moved.end]).toEqual([5, 8]);
+	});
+});
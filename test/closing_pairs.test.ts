@@ -0,0 +1,28 @@
+import { closingPairAt, default_pairs, toAutoClosingPair } from "../src/plugins";
+
+const pairsOf = (language: string) =>
+	default_pairs.find((rules) => rules.language === language)!.pairs.map(toAutoClosingPair);
+
+describe("closingPairAt", () => {
+	test("single character pairs", () => {
+		const pairs = pairsOf("typescript");
+		expect(closingPairAt("foo()", 4, "[", pairs)?.close).toBe("]");
+		expect(closingPairAt("foo", 3, "(", pairs)?.close).toBe(")");
+		expect(closingPairAt("foo", 0, "(", pairs)).toBeUndefined();
+		expect(closingPairAt("foo", 3, "a", pairs)).toBeUndefined();
+	});
+
+	test("multi-character pairs", () => {
+		expect(closingPairAt("/*", 2, "*", pairsOf("typescript"))?.close).toBe(" */");
+		expect(closingPairAt('x = ""', 6, '"', pairsOf("python"))?.close).toBe('"""');
+		expect(closingPairAt('"', 1, '"', pairsOf("python"))?.close).toBe('"');
+		expect(closingPairAt("{}", 1, "%", pairsOf("jinja"))?.close).toBe("%}");
+	});
+
+	test("autoCloseBefore", () => {
+		const pairs = pairsOf("typescript");
+		expect(closingPairAt("a\nb", 1, "(", pairs)?.close).toBe(")");
+		expect(closingPairAt("a b", 1, "(", pairs, "")).toBeUndefined();
+		expect(closingPairAt("a;", 1, "(", pairs, ";")?.close).toBe(")");
+	});
+});
@@ -0,0 +1,45 @@
+import { documentWordList, filterCompletions, wordBefore } from "../src/plugins";
+
+describe("wordBefore", () => {
+	test("word before the caret", () => {
+		expect(wordBefore("const fooBar", 12)).toEqual({ start: 6, end: 12, text: "fooBar" });
+		expect(wordBefore("a.foo_b", 7)).toEqual({ start: 2, end: 7, text: "foo_b" });
+	});
+
+	test("no word before the caret", () => {
+		expect(wordBefore("foo ", 4)).toEqual({ start: 4, end: 4, text: "" });
+		expect(wordBefore("foo\n", 4)).toEqual({ start: 4, end: 4, text: "" });
+	});
+
+	test("word pattern", () => {
+		expect(wordBefore("(foo-bar", 8, /[\w-]+/)).toEqual({ start: 1, end: 8, text: "foo-bar" });
+	});
+});
+
+describe("documentWordList", () => {
+	test("distinct words without numbers", () => {
+		expect(documentWordList("let a = b + a; 42 x1")).toEqual(["let", "a", "b", "x1"]);
+	});
+
+	test("except the word being typed", () => {
+		expect(documentWordList("foo fo", void 0, { start: 4 })).toEqual(["foo"]);
+	});
+});
+
+describe("filterCompletions", () => {
+	const items = [{ label: "toString" }, { label: "Tostada" }, { label: "setTimeout" }, { label: "valueOf" }];
+	const labels = (word: string) => filterCompletions(items, word).map(({ label }) => label);
+
+	test("prefix and case first", () => {
+		expect(labels("to")).toEqual(["toString", "Tostada", "setTimeout"]);
+	});
+
+	test("subsequence", () => {
+		expect(labels("stt")).toEqual(["setTimeout"]);
+		expect(labels("xyz")).toEqual([]);
+	});
+
+	test("empty word", () => {
+		expect(labels("")).toEqual(["setTimeout", "Tostada", "toString", "valueOf"]);
+	});
+});
@@ -0,0 +1,279 @@
+import type { Highlighter } from "shiki";
+import { shikiCode, type InitOptions, type ShikiCode, type UpdateOptions } from "../src";
+import type { EditorPlugin } from "../src/plugins";
+
+// just enough of the DOM to create an editor, the markup set with `innerHTML` is not parsed and nothing is laid out
+
+class FakeNode extends EventTarget {
+	parentNode: FakeElement | null = null;
+
+	constructor(
+		readonly ownerDocument: FakeDocument,
+		public textContent = "",
+	) {
+		super();
+	}
+
+	get nextSibling() {
+		const siblings = this.parentNode?.childNodes || [];
+		return siblings[siblings.indexOf(this) + 1] || null;
+	}
+
+	remove() {
+		const siblings = this.parentNode?.childNodes;
+		siblings?.splice(siblings.indexOf(this), 1);
+		this.parentNode = null;
+	}
+}
+
+class FakeStyle {
+	[name: string]: unknown;
+	cssText = "";
+	properties = new Map<string, string>();
+
+	setProperty(name: string, value: string) {
+		this.properties.set(name, value);
+	}
+
+	getPropertyValue(name: string) {
+		return this.properties.get(name) || "";
+	}
+
+	removeProperty(name: string) {
+		this.properties.delete(name);
+	}
+
+	*[Symbol.iterator]() {
+		yield* this.properties.keys();
+	}
+}
+
+class FakeElement extends FakeNode {
+	childNodes: FakeNode[] = [];
+	id = "";
+	className = "";
+	hidden = false;
+	dataset: Record<string, string> = {};
+	attributes = new Map<string, string>();
+	style = new FakeStyle();
+	scrollTop = 0;
+	scrollLeft = 0;
+	scrollWidth = 0;
+	scrollHeight = 0;
+	clientHeight = 0;
+	offsetHeight = 0;
+	classList = {
+		contains: (name: string) => this.className.split(" ").includes(name),
+		add: (...names: string[]) => names.forEach((name) => this.classList.toggle(name, true)),
+		remove: (...names: string[]) => names.forEach((name) => this.classList.toggle(name, false)),
+		toggle: (name: string, force = !this.classList.contains(name)) => {
+			const names = this.className.split(" ").filter((other) => other !== "" && other !== name);
+			this.className = (force ? [...names, name] : names).join(" ");
+			return force;
+		},
+	};
+
+	constructor(
+		ownerDocument: FakeDocument,
+		readonly tagName: string,
+	) {
+		super(ownerDocument);
+	}
+
+	get children() {
+		return this.childNodes.filter((node) => node instanceof FakeElement);
+	}
+
+	set innerHTML(html: string) {
+		this.replaceChildren();
+		this.textContent = html;
+	}
+
+	get innerHTML() {
+		return this.textContent;
+	}
+
+	setAttribute(name: string, value: string) {
+		this.attributes.set(name, value);
+	}
+
+	getAttribute(name: string) {
+		return this.attributes.get(name) ?? null;
+	}
+
+	removeAttribute(name: string) {
+		this.attributes.delete(name);
+	}
+
+	append(...nodes: FakeNode[]) {
+		this.replaceChildren(...this.childNodes, ...nodes);
+	}
+
+	insertBefore(node: FakeNode, anchor: FakeNode | null) {
+		const nodes = this.childNodes.filter((other) => other !== node);
+		nodes.splice(anchor ? nodes.indexOf(anchor) : nodes.length, 0, node);
+		this.replaceChildren(...nodes);
+	}
+
+	replaceChildren(...nodes: FakeNode[]) {
+		for (const node of this.childNodes) {
+			node.parentNode = null;
+		}
+		for (const node of nodes) {
+			if (node.parentNode !== this) {
+				node.remove();
+			}
+			node.parentNode = this;
+		}
+		this.childNodes = nodes;
+	}
+
+	// a missing element is made up, e.g. the `<code>` of the markup set with `innerHTML`
+	querySelector(tagName: string): FakeElement {
+		for (const child of this.children) {
+			const found = child.tagName === tagName ? child : child.querySelector(tagName);
+			if (found.parentNode) {
+				return found;
+			}
+		}
+		return new FakeElement(this.ownerDocument, tagName);
+	}
+
+	querySelectorAll() {
+		return [];
+	}
+
+	closest() {
+		return null;
+	}
+
+	matches() {
+		return false;
+	}
+
+	contains(node: FakeNode | null): boolean {
+		return node === this || this.children.some((child) => child.contains(node));
+	}
+
+	getBoundingClientRect() {
+		return { left: 0, top: 0, right: 0, bottom: 0, width: 0, height: 0 };
+	}
+
+	scrollTo(left: number, top: number) {
+		this.scrollLeft = left;
+		this.scrollTop = top;
+	}
+
+	scrollIntoView() {}
+
+	focus() {
+		this.ownerDocument.activeElement = this;
+	}
+
+	blur() {
+		this.ownerDocument.activeElement = this.ownerDocument.body;
+	}
+}
+
+class FakeTextArea extends FakeElement {
+	readOnly = false;
+	selectionStart = 0;
+	selectionEnd = 0;
+	selectionDirection: "forward" | "backward" | "none" = "none";
+	#value = "";
+
+	get value() {
+		return this.#value;
+	}
+
+	// the caret moves to the end, as in a browser
+	set value(value: string) {
+		this.#value = value;
+		this.setSelectionRange(value.length, value.length);
+	}
+
+	setSelectionRange(start: number, end: number, direction: "forward" | "backward" | "none" = "none") {
+		this.selectionStart = Math.min(start, this.#value.length);
+		this.selectionEnd = Math.max(Math.min(end, this.#value.length), this.selectionStart);
+		this.selectionDirection = direction;
+	}
+
+	// the selection is preserved, and like in a browser a read-only textarea is edited as well
+	setRangeText(text: string, start: number, end: number) {
+		const delta = text.length - (end - start);
+		const move = (offset: number, inside: number) =>
+			offset > end ? offset + delta : offset > start ? inside : offset;
+		const selection_start = move(this.selectionStart, start);
+		const selection_end = move(this.selectionEnd, start + text.length);
+		this.#value = this.#value.slice(0, start) + text + this.#value.slice(end);
+		this.setSelectionRange(selection_start, selection_end, this.selectionDirection);
+	}
+}
+
+class FakeDocument extends EventTarget {
+	readonly head = new FakeElement(this, "head");
+	readonly body = new FakeElement(this, "body");
+	readonly styleSheets = [];
+	activeElement: FakeElement = this.body;
+
+	createElement(tagName: string) {
+		return tagName === "textarea" ? new FakeTextArea(this, tagName) : new FakeElement(this, tagName);
+	}
+
+	createTextNode(text: string) {
+		return new FakeNode(this, text);
+	}
+
+	getElementById(id: string) {
+		return this.head.children.find((element) => element.id === id) || null;
+	}
+}
+
+// every line is a single token of the foreground color
+const highlighter = {
+	codeToTokens: (text: string) => ({ tokens: [text ? [{ content: text, offset: 0 }] : []] }),
+	getTheme: (name: string) => ({ name, fg: "#000", bg: "#fff" }),
+} as unknown as Highlighter;
+
+export function createDocument() {
+	return new FakeDocument() as unknown as Document & FakeDocument;
+}
+
+/**
+ * Create an editor in a new document, or in `document`.
+ */
+export function createEditor(
+	{ document = createDocument(), ...options }: Partial<InitOptions> & UpdateOptions & { document?: Document },
+	...plugins: readonly EditorPlugin[]
+): ShikiCode {
+	const container = document.createElement("div");
+	return shikiCode()
+		.withOptions(options)
+		.withPlugins(...plugins)
+		.create(container, highlighter, { language: "text", theme: "none", ...options });
+}
+
+/**
+ * Type the text over the selection, as the textarea does before the `input` event.
+ */
+export function type(editor: ShikiCode, text: string) {
+	const { input } = editor;
+	const end = input.selectionStart + text.length;
+	input.setRangeText(text, input.selectionStart, input.selectionEnd);
+	input.setSelectionRange(end, end);
+	input.dispatchEvent(Object.assign(new Event("input"), { inputType: "insertText" }));
+}
+
+export function keydown(editor: ShikiCode, key: string, code = key) {
+	const event = Object.assign(new Event("keydown", { cancelable: true }), {
+		key,
+		code,
+		ctrlKey: false,
+		shiftKey: false,
+		altKey: false,
+		metaKey: false,
+		isComposing: false,
+	});
+	editor.input.dispatchEvent(event);
+	return event.defaultPrevented;
+}
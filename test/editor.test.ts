@@ -0,0 +1,34 @@
+import { hookTab } from "../src/plugins";
+import { createEditor, keydown } from "./dom";
+
+describe("Read-only", () => {
+	test("applyEdits leaves the value", () => {
+		const editor = createEditor({ value: "abc", readOnly: true });
+		editor.applyEdits([{ value: "x", start: 0, end: 1 }]);
+		expect(editor.value).toBe("abc");
+		expect(editor.canUndo).toBe(false);
+
+		// the selection is still applied
+		editor.applyEdits([], { selection: { start: 1, end: 2 } });
+		expect([editor.input.selectionStart, editor.input.selectionEnd]).toEqual([1, 2]);
+	});
+
+	test("plugins do not edit", () => {
+		const editor = createEditor({ value: "abc", readOnly: true }, hookTab);
+		editor.input.setSelectionRange(0, 0);
+		keydown(editor, "Tab");
+		expect(editor.value).toBe("abc");
+
+		editor.updateOptions({ readOnly: false });
+		keydown(editor, "Tab");
+		expect(editor.value).toBe("    abc");
+	});
+
+	test("the keys are left to the textarea", () => {
+		const editor = createEditor({ value: "abc", readOnly: true }, hookTab);
+		// e.g. `Tab` moves the focus out of the editor
+		expect(keydown(editor, "Tab")).toBe(false);
+		expect(keydown(editor, "Enter")).toBe(false);
+		expect(editor.executeCommand("tab.indent")).toBe(false);
+	});
+});
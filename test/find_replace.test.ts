@@ -0,0 +1,62 @@
+import { findMatches, replacement, type FindOptions } from "../src/plugins";
+
+const plain: FindOptions = { regex: false, matchCase: false, wholeWord: false };
+
+function offsets(matches: RegExpMatchArray[]) {
+	return matches.map((match) => [match.index, match.index! + match[0].length]);
+}
+
+describe("findMatches", () => {
+	test("ignore case by default", () => {
+		expect(offsets(findMatches("Foo foo FOO", "foo", plain))).toEqual([
+			[0, 3],
+			[4, 7],
+			[8, 11],
+		]);
+	});
+
+	test("match case", () => {
+		expect(offsets(findMatches("Foo foo FOO", "foo", { ...plain, matchCase: true }))).toEqual([[4, 7]]);
+	});
+
+	test("special characters are literal", () => {
+		expect(offsets(findMatches("a.b axb", "a.b", plain))).toEqual([[0, 3]]);
+	});
+
+	test("whole word", () => {
+		expect(offsets(findMatches("foo foobar _foo foo.bar", "foo", { ...plain, wholeWord: true }))).toEqual([
+			[0, 3],
+			[16, 19],
+		]);
+	});
+
+	test("regex", () => {
+		expect(offsets(findMatches("a1 b22 c", "\\d+", { ...plain, regex: true }))).toEqual([
+			[1, 2],
+			[4, 6],
+		]);
+	});
+
+	test("empty matches are skipped", () => {
+		expect(findMatches("abc", "x*", { ...plain, regex: true })).toEqual([]);
+	});
+
+	test("invalid regex", () => {
+		expect(() => findMatches("abc", "(", { ...plain, regex: true })).toThrow(SyntaxError);
+	});
+});
+
+describe("replacement", () => {
+	const regex = { ...plain, regex: true };
+
+	test("literal", () => {
+		const [match] = findMatches("let a", "let", plain);
+		expect(replacement(match, "$&$1", plain)).toBe("$&$1");
+	});
+
+	test("groups", () => {
+		const [match] = findMatches("let a = 1", "(\\w+) (?<name>\\w+)", regex);
+		expect(replacement(match, "$2 $1", regex)).toBe("a let");
+		expect(replacement(match, "[$&] $<name> $$1 $9", regex)).toBe("[let a] a $1 $9");
+	});
+});
@@ -0,0 +1,160 @@
+import {
+	createFolding,
+	fold,
+	foldAll,
+	foldingRegions,
+	hiddenLines,
+	mapFolds,
+	skipHiddenLines,
+	unfold,
+	unfoldAll,
+} from "../src/plugins";
+import { createEditor } from "./dom";
+
+const pairs = [
+	["(", ")"],
+	["{", "}"],
+] as const;
+
+describe("Folding regions", () => {
+	test("indentation", () => {
+		const value = "def f():\n    a = 1\n\n    return a\nf()";
+		expect(foldingRegions(value, 4)).toEqual([{ startLine: 0, endLine: 3, start: 8, end: 32 }]);
+	});
+
+	test("brackets keep the closing bracket visible", () => {
+		const value = "function f() {\n\treturn 1;\n}";
+		const [region] = foldingRegions(value, 4, pairs);
+		expect(region).toEqual({ startLine: 0, endLine: 2, start: 14, end: 26 });
+		expect(value.slice(0, region.start) + "⋯" + value.slice(region.end)).toBe("function f() {⋯}");
+	});
+
+	test("the first closing bracket on the last line wins", () => {
+		const value = "f({\n\ta: 1,\n})";
+		expect(foldingRegions(value, 4, pairs)).toEqual([{ startLine: 0, endLine: 2, start: 3, end: 11 }]);
+	});
+
+	test("ignored brackets", () => {
+		const value = "a(\n')'\n)";
+		expect(foldingRegions(value, 4, pairs, (offset) => offset === 4)).toEqual([
+			{ startLine: 0, endLine: 2, start: 2, end: 7 },
+		]);
+	});
+});
+
+describe("Folding", () => {
+	const value = "function f() {\n\tif (a) {\n\t\treturn 1;\n\t}\n}\nf();";
+	const [outer, inner] = foldingRegions(value, 4, pairs).map(({ start, end }) => ({ start, end }));
+
+	test("hidden lines", () => {
+		// the closing bracket of a bracket region stays visible
+		expect(hiddenLines(value, [inner])).toEqual([[2, 2]]);
+		expect(hiddenLines(value, [outer])).toEqual([[1, 3]]);
+		// a fold nested in another is hidden along with it
+		expect(hiddenLines(value, [inner, outer])).toEqual([[1, 3]]);
+		expect(hiddenLines(value, [])).toEqual([]);
+
+		const indented = "a:\n  b\nc:\n  d";
+		const regions = foldingRegions(indented, 4);
+		expect(hiddenLines(indented, regions)).toEqual([
+			[1, 1],
+			[3, 3],
+		]);
+	});
+
+	test("the textarea keeps the full text", () => {
+		// typing before the fold moves it along
+		const typed = mapFolds([outer], [{ start: 0, end: 0, text: "async " }]);
+		expect(typed).toEqual([{ start: outer.start + 6, end: outer.end + 6 }]);
+		expect(hiddenLines("async " + value, typed)).toEqual([[1, 3]]);
+
+		// typing at the end of the header line, or before the closing bracket, keeps the fold
+		expect(mapFolds([outer], [{ start: outer.start, end: outer.start, text: " " }])).toEqual([
+			{ start: outer.start + 1, end: outer.end + 1 },
+		]);
+		expect(mapFolds([outer], [{ start: outer.end, end: outer.end, text: " " }])).toEqual([outer]);
+		// typing after the fold leaves it where it is
+		expect(mapFolds([outer], [{ start: value.length, end: value.length, text: "\n" }])).toEqual([outer]);
+	});
+
+	test("editing the folded text unfolds", () => {
+		const inside = value.indexOf("return");
+		expect(mapFolds([outer, inner], [{ start: inside, end: inside + 6, text: "yield" }])).toEqual([]);
+		// removing the line break after the header
+		expect(mapFolds([outer], [{ start: outer.start, end: outer.start + 1, text: "" }])).toEqual([]);
+
+		const indented = "a:\n  b\nc";
+		const [{ start, end }] = foldingRegions(indented, 4);
+		// joining the line after the fold to the last hidden line
+		expect(mapFolds([{ start, end }], [{ start: end, end: end + 1, text: "" }])).toEqual([]);
+	});
+
+	test("the changes are mapped in order", () => {
+		const changes = [
+			{ start: 0, end: 0, text: "// f\n" },
+			{ start: 0, end: 5, text: "" },
+		];
+		expect(mapFolds([outer], changes)).toEqual([outer]);
+	});
+
+	test("the caret skips the hidden lines", () => {
+		const hidden = [[1, 3]] as const;
+		// down from the header, and up from the line after
+		expect(skipHiddenLines(hidden, 1, 0, 6)).toBe(4);
+		expect(skipHiddenLines(hidden, 3, 4, 6)).toBe(0);
+		// nothing follows the hidden lines
+		expect(skipHiddenLines(hidden, 1, 0, 4)).toBe(0);
+		// lines which are not hidden
+		expect(skipHiddenLines(hidden, 5, 0, 6)).toBe(5);
+		// e.g. a search result in the hidden lines
+		expect(skipHiddenLines(hidden, 2, 5, 6)).toBeUndefined();
+	});
+});
+
+describe("Folding plugin", () => {
+	const value = "a:\n  b\nc:\n  d";
+
+	test("fold and unfold per editor", async () => {
+		const editor = createEditor({ value }, createFolding());
+		const other = createEditor({ value }, createFolding());
+
+		expect(fold(editor, 0)).toBe(true);
+		expect(fold(editor, 1)).toBe(false);
+		await Promise.resolve();
+		expect(editor.output.className).toContain("folded");
+		expect(other.output.className).not.toContain("folded");
+		// the textarea keeps the full text
+		expect(editor.value).toBe(value);
+
+		expect(unfold(other, 0)).toBe(false);
+		expect(unfold(editor, 0)).toBe(true);
+		await Promise.resolve();
+		expect(editor.output.className).not.toContain("folded");
+
+		foldAll(other);
+		unfoldAll(other);
+		expect(() => fold(createEditor({ value }), 0)).toThrow("fold requires the createFolding plugin");
+	});
+
+	test("the regions are only found when needed", async () => {
+		const editor = createEditor({ language: "js" }, createFolding({ language: "js", pairs: [["(", ")"]] }));
+		let reads = 0;
+		const getLineTokens = editor.getLineTokens;
+		editor.getLineTokens = (line) => {
+			reads++;
+			return getLineTokens(line);
+		};
+
+		editor.value = "f(\n\t1\n);";
+		await Promise.resolve();
+		expect(reads).toBe(0);
+
+		// once per line with a bracket
+		expect(fold(editor, 0)).toBe(true);
+		expect(reads).toBe(2);
+		// found once until the content changes
+		unfold(editor, 0);
+		fold(editor, 0);
+		expect(reads).toBe(2);
+	});
+});
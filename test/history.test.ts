@@ -0,0 +1,119 @@
+import { applyChange, type ContentChange } from "../src/change";
+import { createHistory, type EditKind } from "../src/history";
+
+const caret = (offset: number) => ({ start: offset, end: offset });
+
+function edit(value: string, changes: ContentChange[]): string {
+	return changes.reduce(applyChange, value);
+}
+
+function record(history: ReturnType<typeof createHistory>, value: string, change: ContentChange, kind: EditKind) {
+	const after = change.start + change.text.length;
+	history.push(value, [change], caret(change.end), caret(after), kind);
+	return applyChange(value, change);
+}
+
+describe("History", () => {
+	test("undo and redo", () => {
+		const history = createHistory();
+		const value = record(history, "hello", { start: 5, end: 5, text: " world" }, "other");
+
+		expect(history.canUndo).toBe(true);
+		const entry = history.undo()!;
+		expect(edit(value, [...entry.inverse])).toBe("hello");
+		expect(entry.selectionBefore).toEqual(caret(5));
+
+		expect(history.canRedo).toBe(true);
+		const redo = history.redo()!;
+		expect(edit("hello", [...redo.changes])).toBe("hello world");
+		expect(redo.selectionAfter).toEqual(caret(11));
+	});
+
+	test("consecutive typing is coalesced", () => {
+		const history = createHistory();
+		let value = "";
+		for (const [i, c] of [..."abc"].entries()) {
+			value = record(history, value, { start: i, end: i, text: c }, "typing");
+		}
+
+		const entry = history.undo()!;
+		expect(edit(value, [...entry.inverse])).toBe("");
+		expect(entry.selectionBefore).toEqual(caret(0));
+		expect(history.canUndo).toBe(false);
+	});
+
+	test("consecutive deleting is coalesced", () => {
+		const history = createHistory();
+		let value = "abc";
+		value = record(history, value, { start: 2, end: 3, text: "" }, "deleting");
+		value = record(history, value, { start: 1, end: 2, text: "" }, "deleting");
+
+		const entry = history.undo()!;
+		expect(edit(value, [...entry.inverse])).toBe("abc");
+		expect(history.canUndo).toBe(false);
+	});
+
+	test("undo stop", () => {
+		const history = createHistory();
+		let value = record(history, "", { start: 0, end: 0, text: "a" }, "typing");
+		history.pushUndoStop();
+		value = record(history, value, { start: 1, end: 1, text: "b" }, "typing");
+
+		expect(edit(value, [...history.undo()!.inverse])).toBe("a");
+		expect(history.canUndo).toBe(true);
+	});
+
+	test("new line ends typing", () => {
+		const history = createHistory();
+		let value = record(history, "", { start: 0, end: 0, text: "\n" }, "typing");
+		value = record(history, value, { start: 1, end: 1, text: "a" }, "typing");
+
+		expect(edit(value, [...history.undo()!.inverse])).toBe("\n");
+	});
+
+	test("non-contiguous typing", () => {
+		const history = createHistory();
+		let value = record(history, "xy", { start: 0, end: 0, text: "a" }, "typing");
+		value = record(history, value, { start: 3, end: 3, text: "b" }, "typing");
+
+		expect(edit(value, [...history.undo()!.inverse])).toBe("axy");
+	});
+
+	test("edit clears redo", () => {
+		const history = createHistory();
+		let value = record(history, "", { start: 0, end: 0, text: "a" }, "other");
+		history.undo();
+		value = record(history, "", { start: 0, end: 0, text: "b" }, "other");
+
+		expect(history.canRedo).toBe(false);
+		expect(value).toBe("b");
+	});
+
+	test("multiple changes in one step", () => {
+		const history = createHistory();
+		const changes = [
+			{ start: 0, end: 3, text: "const" },
+			{ start: 13, end: 16, text: "const" },
+		];
+		history.push("let a = 1;\nlet b = 2;", changes, caret(0), caret(0), "other");
+
+		const value = edit("let a = 1;\nlet b = 2;", changes);
+		expect(value).toBe("const a = 1;\nconst b = 2;");
+		expect(edit(value, [...history.undo()!.inverse])).toBe("let a = 1;\nlet b = 2;");
+	});
+
+	test("amend", () => {
+		const history = createHistory();
+		let value = record(history, "a a", { start: 2, end: 3, text: "b" }, "typing");
+		// a change made in response, before the typing
+		const change = { start: 0, end: 1, text: "b" };
+		history.amend(value, [change], caret(3));
+		value = applyChange(value, change);
+		// the typing goes on in the same step
+		value = record(history, value, { start: 3, end: 3, text: "c" }, "typing");
+		expect(value).toBe("b bc");
+
+		expect(edit(value, [...history.undo()!.inverse])).toBe("a a");
+		expect(history.canUndo).toBe(false);
+	});
+});
@@ -0,0 +1,18 @@
+import { wordAt } from "../src/plugins";
+
+describe("wordAt", () => {
+	test("word containing the offset", () => {
+		expect(wordAt("let fooBar = 1", 4)).toEqual({ start: 4, end: 10, text: "fooBar" });
+		expect(wordAt("let fooBar = 1", 9)).toEqual({ start: 4, end: 10, text: "fooBar" });
+		expect(wordAt("a\nfoo", 3)).toEqual({ start: 2, end: 5, text: "foo" });
+	});
+
+	test("no word at the offset", () => {
+		expect(wordAt("let fooBar = 1", 10)).toBeUndefined();
+		expect(wordAt("\nfoo", 0)).toBeUndefined();
+	});
+
+	test("word pattern", () => {
+		expect(wordAt("(foo-bar)", 5, /[\w-]+/)).toEqual({ start: 1, end: 8, text: "foo-bar" });
+	});
+});
@@ -0,0 +1,23 @@
+import { guessIndentation } from "../src/indentation";
+
+describe("Guess indentation", () => {
+	test("spaces", () => {
+		expect(guessIndentation("if (a) {\n  if (b) {\n    c();\n  }\n}")).toEqual({ insertSpaces: true, tabSize: 2 });
+		expect(guessIndentation("if (a) {\n    if (b) {\n        c();\n    }\n}")).toEqual({
+			insertSpaces: true,
+			tabSize: 4,
+		});
+	});
+
+	test("tabs", () => {
+		expect(guessIndentation("if (a) {\n\tb();\n\tc();\n}")).toEqual({ insertSpaces: false });
+	});
+
+	test("more lines indented with tabs win", () => {
+		expect(guessIndentation("a\n\tb\n\tc\n  d")).toEqual({ insertSpaces: false });
+	});
+
+	test("nothing indented", () => {
+		expect(guessIndentation("a\nb\n")).toEqual({});
+	});
+});
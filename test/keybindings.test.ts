@@ -0,0 +1,106 @@
+import { evaluateWhen, matchesKey, resolveKeybindings, type Keybinding } from "../src/keybindings";
+
+interface Modifiers {
+	ctrl?: boolean;
+	shift?: boolean;
+	alt?: boolean;
+	meta?: boolean;
+}
+
+function keydown(key: string, code: string, modifiers: Modifiers) {
+	const { ctrl = false, shift = false, alt = false, meta = false } = modifiers;
+	return { key, code, ctrlKey: ctrl, shiftKey: shift, altKey: alt, metaKey: meta };
+}
+
+describe("matchesKey", () => {
+	test("modifiers", () => {
+		const ctrl_z = keydown("z", "KeyZ", { ctrl: true });
+		expect(matchesKey(ctrl_z, "ctrl+z", false)).toBe(true);
+		expect(matchesKey(ctrl_z, "mod+z", false)).toBe(true);
+		expect(matchesKey(ctrl_z, "mod+z", true)).toBe(false);
+		expect(matchesKey(keydown("z", "KeyZ", { meta: true }), "mod+z", true)).toBe(true);
+		expect(matchesKey(keydown("Z", "KeyZ", { ctrl: true, shift: true }), "ctrl+z", false)).toBe(false);
+		expect(matchesKey(keydown("Z", "KeyZ", { ctrl: true, shift: true }), "Ctrl+Shift+Z", false)).toBe(true);
+	});
+
+	test("named keys", () => {
+		expect(matchesKey(keydown("ArrowDown", "ArrowDown", {}), "down")).toBe(true);
+		expect(matchesKey(keydown(" ", "Space", { ctrl: true }), "ctrl+space")).toBe(true);
+		expect(matchesKey(keydown("Escape", "Escape", {}), "esc")).toBe(true);
+		expect(matchesKey(keydown("F3", "F3", { shift: true }), "shift+f3")).toBe(true);
+		expect(matchesKey(keydown("+", "Equal", { ctrl: true, shift: true }), "ctrl+shift++")).toBe(true);
+	});
+
+	test("physical keys", () => {
+		expect(matchesKey(keydown("{", "BracketLeft", { ctrl: true, shift: true }), "ctrl+shift+[", false)).toBe(true);
+		expect(matchesKey(keydown("ƒ", "KeyF", { meta: true, alt: true }), "cmd+alt+f", true)).toBe(true);
+		expect(matchesKey(keydown("|", "Backslash", { meta: true, shift: true }), "mod+shift+\\", true)).toBe(true);
+	});
+
+	test("keyboard layouts", () => {
+		// AZERTY types `w` with the physical `KeyZ`
+		expect(matchesKey(keydown("w", "KeyZ", { ctrl: true }), "ctrl+w", false)).toBe(true);
+		expect(matchesKey(keydown("w", "KeyZ", { ctrl: true }), "ctrl+z", false)).toBe(false);
+		expect(matchesKey(keydown("W", "KeyZ", { ctrl: true, shift: true }), "ctrl+shift+z", false)).toBe(false);
+		// Dvorak types `u` with the physical `KeyF`
+		expect(matchesKey(keydown("u", "KeyF", { ctrl: true }), "mod+f", false)).toBe(false);
+		expect(matchesKey(keydown("u", "KeyF", { ctrl: true }), "mod+u", false)).toBe(true);
+	});
+});
+
+describe("evaluateWhen", () => {
+	const context = { editorHasSelection: true, suggestWidgetVisible: false, editorLangId: "python" };
+
+	test("operators", () => {
+		expect(evaluateWhen(void 0, context)).toBe(true);
+		expect(evaluateWhen("editorHasSelection", context)).toBe(true);
+		expect(evaluateWhen("!editorHasSelection", context)).toBe(false);
+		expect(evaluateWhen("editorHasSelection && suggestWidgetVisible", context)).toBe(false);
+		expect(evaluateWhen("editorHasSelection && !suggestWidgetVisible", context)).toBe(true);
+		expect(evaluateWhen("suggestWidgetVisible || editorLangId == python", context)).toBe(true);
+		expect(evaluateWhen("editorLangId != python", context)).toBe(false);
+		expect(evaluateWhen("!(suggestWidgetVisible || unknownKey) && true", context)).toBe(true);
+	});
+});
+
+describe("resolveKeybindings", () => {
+	const defaults: Keybinding[] = [
+		{ key: "tab", command: "tab.indent" },
+		{ key: "tab", command: "completion.accept", when: "suggestWidgetVisible" },
+		{ key: "escape", command: "tab.blur" },
+		{ key: "escape", command: "find.close", when: "findWidgetVisible" },
+		{ key: "ctrl+y", mac: "", command: "redo" },
+		{ key: "ctrl+h", mac: "cmd+alt+f", command: "find.openReplace" },
+	];
+	const commandsOf = (keybindings: readonly Keybinding[], key: string) =>
+		keybindings.filter((keybinding) => keybinding.key === key).map(({ command }) => command);
+
+	test("precedence", () => {
+		const user = [{ key: "tab", command: "snippet.next" }];
+		const keybindings = resolveKeybindings(defaults, user, false);
+		expect(commandsOf(keybindings, "tab")).toEqual(["snippet.next", "completion.accept", "tab.indent"]);
+	});
+
+	test("removal", () => {
+		const user = [
+			{ key: "escape", command: "-tab.blur" },
+			{ key: "", command: "-find.close" },
+		];
+		expect(commandsOf(resolveKeybindings(defaults, user, false), "escape")).toEqual([]);
+
+		const other_when = [{ key: "tab", command: "-completion.accept", when: "editorHasSelection" }];
+		expect(commandsOf(resolveKeybindings(defaults, other_when, false), "tab")).toEqual([
+			"completion.accept",
+			"tab.indent",
+		]);
+	});
+
+	test("platform keys", () => {
+		expect(commandsOf(resolveKeybindings(defaults, [], false), "ctrl+y")).toEqual(["redo"]);
+		expect(commandsOf(resolveKeybindings(defaults, [], true), "ctrl+y")).toEqual([]);
+		expect(commandsOf(resolveKeybindings(defaults, [], true), "cmd+alt+f")).toEqual(["find.openReplace"]);
+
+		const user = [{ key: "ctrl+h", mac: "cmd+alt+f", command: "-find.openReplace" }];
+		expect(commandsOf(resolveKeybindings(defaults, user, true), "cmd+alt+f")).toEqual([]);
+	});
+});
@@ -0,0 +1,87 @@
+import {
+	enterText,
+	getLanguageConfiguration,
+	parseLanguageConfiguration,
+	registerLanguageConfiguration,
+	stripJSONComments,
+} from "../src/plugins";
+
+describe("stripJSONComments", () => {
+	test("comments and trailing commas", () => {
+		const text = `{
+	// line comment
+	"a": "// not a comment", /* block
+	comment */
+	"b": [1, 2,],
+	"c": "/* kept */",
+}`;
+		expect(JSON.parse(stripJSONComments(text))).toEqual({ a: "// not a comment", b: [1, 2], c: "/* kept */" });
+	});
+
+	test("escaped quotes", () => {
+		expect(JSON.parse(stripJSONComments(`{ "a": "\\" // ," }`))).toEqual({ a: '" // ,' });
+	});
+});
+
+describe("parseLanguageConfiguration", () => {
+	test("VS Code language-configuration.json", () => {
+		const configuration = parseLanguageConfiguration(`{
+	"comments": {
+		"lineComment": { "comment": "--" },
+		"blockComment": ["{-", "-}"],
+	},
+	"brackets": [["(", ")"], ["[", "]"]],
+	"autoClosingPairs": [["(", ")"], { "open": "\\"", "close": "\\"", "notIn": ["string"] }],
+	"indentationRules": {
+		"increaseIndentPattern": "\\\\b(where|of)$",
+		"decreaseIndentPattern": { "pattern": "^\\\\s*IN\\\\b", "flags": "i" },
+	},
+	"onEnterRules": [{ "beforeText": "^\\\\s*--", "action": { "indent": "none", "appendText": "-- " } }],
+	"wordPattern": "[\\\\w']+",
+}`);
+
+		expect(configuration.comments).toEqual({ lineComment: "--", blockComment: ["{-", "-}"] });
+		expect(configuration.brackets).toEqual([
+			["(", ")"],
+			["[", "]"],
+		]);
+		expect(configuration.autoClosingPairs).toEqual([
+			["(", ")"],
+			{ open: '"', close: '"', notIn: ["string"] },
+		]);
+		expect(configuration.surroundingPairs).toBeUndefined();
+		expect(configuration.indentationRules?.increaseIndentPattern?.test("case x of")).toBe(true);
+		expect(configuration.indentationRules?.decreaseIndentPattern?.test("  in x")).toBe(true);
+		expect(configuration.onEnterRules?.[0].beforeText.test("  -- a")).toBe(true);
+		expect(configuration.wordPattern?.source).toBe("[\\w']+");
+	});
+});
+
+describe("registerLanguageConfiguration", () => {
+	test("built-in configurations", () => {
+		const configuration = getLanguageConfiguration("typescript");
+		expect(configuration?.comments).toEqual({ lineComment: "//", blockComment: ["/*", "*/"] });
+		expect(configuration?.brackets).toEqual([
+			["(", ")"],
+			["[", "]"],
+			["{", "}"],
+		]);
+		expect(configuration?.indentationRules).toBeDefined();
+		expect(getLanguageConfiguration("plaintext")).toBeUndefined();
+	});
+
+	test("replace and restore", () => {
+		const builtin = getLanguageConfiguration("python");
+		const configuration = parseLanguageConfiguration({ brackets: [["begin", "end"]] });
+
+		const dispose = registerLanguageConfiguration("python", configuration);
+		expect(getLanguageConfiguration("python")).toBe(configuration);
+
+		const state = { value: "begin", selectionStart: 5, selectionEnd: 5 };
+		const action = enterText(state, { tabSize: 2, insertSpaces: true }, getLanguageConfiguration("python"));
+		expect(action.patch?.value).toBe("\n  ");
+
+		dispose();
+		expect(getLanguageConfiguration("python")).toBe(builtin);
+	});
+});
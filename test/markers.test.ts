@@ -0,0 +1,53 @@
+import { mapMarkers, markerDecorations, type Marker } from "../src/markers";
+
+const marker = (start: number, end: number, severity: Marker["severity"] = "error"): Marker => ({
+	start,
+	end,
+	severity,
+	message: "message",
+});
+
+describe("mapMarkers", () => {
+	test("edits before the marker move it", () => {
+		const [moved] = mapMarkers([marker(4, 7)], [{ start: 0, end: 1, text: "abc" }]);
+		expect([moved.start, moved.end]).toEqual([6, 9]);
+	});
+
+	test("edits after the marker keep it", () => {
+		const markers = [marker(4, 7)];
+		expect(mapMarkers(markers, [{ start: 7, end: 7, text: "x" }])[0]).toBe(markers[0]);
+	});
+
+	test("edits inside the marker resize it", () => {
+		const [moved] = mapMarkers([marker(4, 7)], [{ start: 5, end: 6, text: "xyz" }]);
+		expect([moved.start, moved.end]).toEqual([4, 9]);
+	});
+
+	test("deleting the marker text collapses it", () => {
+		const [moved] = mapMarkers([marker(4, 7)], [{ start: 2, end: 8, text: "" }]);
+		expect([moved.start, moved.end]).toEqual([2, 2]);
+	});
+
+	test("changes are applied in order", () => {
+		const changes = [
+			{ start: 0, end: 0, text: "ab" },
+			{ start: 0, end: 1, text: "" },
+		];
+		const [moved] = mapMarkers([marker(4, 7)], changes);
+		expect([moved.start, moved.end]).toEqual([5, 8]);
+	});
+});
+
+describe("markerDecorations", () => {
+	test("the most severe marker of a line shows an icon", () => {
+		const markers = [marker(0, 1, "warning"), marker(2, 3, "error"), marker(6, 7, "hint")];
+		const decorations = markerDecorations(markers, "abcd\nefgh");
+		expect(decorations.filter((d) => d.lineClassName).map((d) => d.lineClassName)).toEqual(["marker-line-error"]);
+		expect(decorations.filter((d) => d.className).length).toBe(3);
+	});
+
+	test("an empty marker underlines the next character", () => {
+		expect(markerDecorations([marker(1, 1)], "ab")[0]).toMatchObject({ start: 1, end: 2 });
+		expect(markerDecorations([marker(2, 2)], "ab")[0]).toMatchObject({ start: 1, end: 2 });
+	});
+});
@@ -0,0 +1,63 @@
+import { createHighlighter } from "shiki";
+import { enclosingBrackets, isStringOrComment, matchBracketAt } from "../src/plugins";
+import { createTokenizer, lineTokens } from "../src/tokenize";
+
+const pairs = [
+	["(", ")"],
+	["[", "]"],
+	["{", "}"],
+] as const;
+
+describe("matchBracketAt", () => {
+	const code = "f(a[0], (b))";
+
+	test("bracket before the caret", () => {
+		expect(matchBracketAt(code, 2, pairs)).toEqual({ open: 1, close: 11 });
+	});
+
+	test("bracket after the caret", () => {
+		expect(matchBracketAt(code, 8, pairs)).toEqual({ open: 8, close: 10 });
+	});
+
+	test("closing bracket", () => {
+		expect(matchBracketAt(code, 12, pairs)).toEqual({ open: 1, close: 11 });
+	});
+
+	test("not next to a bracket", () => {
+		expect(matchBracketAt(code, 0, pairs)).toBeUndefined();
+	});
+
+	test("unbalanced", () => {
+		expect(matchBracketAt("(()", 1, pairs)).toBeUndefined();
+	});
+});
+
+describe("enclosingBrackets", () => {
+	test("innermost", () => {
+		expect(enclosingBrackets("{ [a, (b)] }", 5, pairs)).toEqual({ open: 2, close: 9 });
+	});
+
+	test("none", () => {
+		expect(enclosingBrackets("a (b) c", 6, pairs)).toBeUndefined();
+	});
+});
+
+const highlighter = await createHighlighter({ langs: ["javascript"], themes: ["github-dark"] });
+
+describe("scopes", () => {
+	const code = 'f(")", `${(a)}`) // )';
+	const tokenizer = createTokenizer(highlighter);
+	const [line] = tokenizer.reset(code, { lang: "javascript", theme: "github-dark", scopes: true }).lines;
+	const scopesAt = (offset: number) => lineTokens(line, 0).find(({ end }) => offset < end)?.scopes || [];
+	const isIgnored = (offset: number) => isStringOrComment(scopesAt(offset));
+
+	test("brackets in strings and comments are ignored", () => {
+		expect(matchBracketAt(code, 2, pairs, isIgnored)).toEqual({ open: 1, close: 15 });
+		expect(matchBracketAt(code, 4, pairs, isIgnored)).toBeUndefined();
+	});
+
+	test("brackets in template expressions are code", () => {
+		expect(matchBracketAt(code, 10, pairs, isIgnored)).toEqual({ open: 9, close: 13 });
+		expect(matchBracketAt(code, 11, pairs, isIgnored)).toEqual({ open: 10, close: 12 });
+	});
+});
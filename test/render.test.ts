@@ -0,0 +1,237 @@
+import { createLinesView, renderTokens, splitDecorations } from "../src/render";
+import { lineStarts, type TokenizedLine } from "../src/tokenize";
+
+function plain(text: string): TokenizedLine {
+	return { text, tokens: [{ content: text, offset: 0 }], state: void 0 };
+}
+
+describe("Decorations", () => {
+	test("split by lines", () => {
+		const lines = ["ab", "", "cd"].map(plain);
+		expect(splitDecorations(lines, [{ start: 1, end: 5, className: "x" }]).map((line) => line.inline)).toEqual([
+			[{ start: 1, end: 2, className: "x", style: "" }],
+			[{ start: 0, end: 0, className: "x", style: "" }],
+			[{ start: 0, end: 1, className: "x", style: "" }],
+		]);
+	});
+
+	test("a range ending at a line start does not decorate the line", () => {
+		const lines = ["ab", "cd"].map(plain);
+		expect(splitDecorations(lines, [{ start: 0, end: 3, className: "x", lineClassName: "y" }])[1]).toEqual({
+			inline: [],
+			className: "",
+			style: "",
+		});
+	});
+
+	test("line class names", () => {
+		const lines = ["ab", "cd", "ef"].map(plain);
+		const decorations = [
+			{ start: 4, end: 4, lineClassName: "x" },
+			{ start: 0, end: 4, lineClassName: "y" },
+		];
+		expect(splitDecorations(lines, decorations).map((line) => line.className)).toEqual(["y", "x y", ""]);
+	});
+
+	test("tokens are split at the boundaries", () => {
+		const tokens = [
+			{ content: "const", offset: 0, color: "#f00" },
+			{ content: " a", offset: 5 },
+		];
+		expect(
+			renderTokens(tokens, [
+				{ start: 3, end: 6, className: "x" },
+				{ start: 5, end: 6, className: "y" },
+			]),
+		).toBe(
+			'<span style="color:#f00">con</span><span class="x" style="color:#f00">st</span><span class="x y"> </span><span>a</span>',
+		);
+	});
+
+	test("styles", () => {
+		const lines = ["ab", "cd"].map(plain);
+		const [first, second] = splitDecorations(lines, [
+			{ start: 0, end: 1, style: "color:red" },
+			{ start: 3, end: 3, lineStyle: "background:green" },
+		]);
+		expect(first).toEqual({ inline: [{ start: 0, end: 1, className: "", style: "color:red" }], className: "", style: "" });
+		expect(second.style).toBe("background:green");
+
+		expect(renderTokens([{ content: "ab", offset: 0, color: "#f00" }], first.inline)).toBe(
+			'<span style="color:#f00;color:red">a</span><span style="color:#f00">b</span>',
+		);
+	});
+});
+
+// just enough of the DOM for the virtual mode, every line is `line_height` high
+const line_height = 10;
+
+class FakeNode {
+	parentNode: FakeElement | null = null;
+
+	remove() {
+		const siblings = this.parentNode?.childNodes;
+		siblings?.splice(siblings.indexOf(this), 1);
+		this.parentNode = null;
+	}
+}
+
+class FakeElement extends FakeNode {
+	childNodes: FakeNode[] = [];
+	className = "";
+	innerHTML = "";
+	dataset: Record<string, string> = {};
+	scrollTop = 0;
+	clientHeight = 0;
+	listeners: Record<string, () => void> = {};
+	classList = { toggle: (name: string, force: boolean) => force && (this.className = name) };
+	style = {
+		cssText: "",
+		properties: {} as Record<string, string>,
+		setProperty(name: string, value: string) {
+			this.properties[name] = value;
+		},
+	};
+
+	constructor(
+		readonly ownerDocument: FakeDocument,
+		readonly tagName: string,
+	) {
+		super();
+	}
+
+	// the markup set with `innerHTML` is not parsed, it is checked as text
+	querySelector(tagName: string) {
+		const found = this.children.find((element) => element.tagName === tagName);
+		return found || new FakeElement(this.ownerDocument, tagName);
+	}
+
+	get children() {
+		return this.childNodes.filter((node) => node instanceof FakeElement);
+	}
+
+	// the padding and the rendered lines of the `<code>` element
+	get offsetHeight() {
+		const output = this.parentNode!.parentNode!;
+		const { properties } = output.style;
+		const padding = Number(properties["--virtual-before"]) + Number(properties["--virtual-after"]);
+		return (padding + this.children.length) * line_height;
+	}
+
+	append(node: FakeNode) {
+		this.replaceChildren(...this.childNodes, node);
+	}
+
+	replaceChildren(...nodes: FakeNode[]) {
+		for (const node of this.childNodes) {
+			node.parentNode = null;
+		}
+		for (const node of nodes) {
+			node.remove();
+			node.parentNode = this;
+		}
+		this.childNodes = nodes;
+	}
+
+	addEventListener(type: string, listener: () => void) {
+		this.listeners[type] = listener;
+	}
+
+	removeEventListener(type: string) {
+		delete this.listeners[type];
+	}
+
+	scroll(top: number) {
+		this.scrollTop = top;
+		this.listeners.scroll();
+	}
+}
+
+class FakeDocument {
+	createElement(tagName: string) {
+		return new FakeElement(this, tagName);
+	}
+
+	createTextNode() {
+		return new FakeNode();
+	}
+}
+
+describe("Virtual rendering", () => {
+	const lines = Array.from({ length: 100 }, (_, index) => plain(`line ${index}`));
+
+	function createView() {
+		const output = new FakeDocument().createElement("div");
+		output.clientHeight = 10 * line_height;
+		const view = createLinesView(output as unknown as HTMLElement);
+		view.setVirtual(true);
+		view.setLineNumbers((index) => (index + 1).toString());
+		view.render(lines);
+
+		const code = () => output.children[0].children[0];
+		const texts = () => code().children.map((element) => element.innerHTML);
+		return { output, view, code, texts };
+	}
+
+	test("the window is padded to the height of the lines", () => {
+		const { output, code, texts } = createView();
+		// the visible lines and a screen below
+		expect(code().dataset.firstLine).toBe("0");
+		expect(texts()).toEqual(lines.slice(0, 20).map((line) => `<span>${line.text}</span>`));
+		expect(output.style.properties).toEqual({ "--virtual-before": "0", "--virtual-after": "80" });
+
+		output.scroll(50 * line_height);
+		expect(code().dataset.firstLine).toBe("40");
+		expect(code().children.length).toBe(30);
+		expect(output.style.properties).toEqual({ "--virtual-before": "40", "--virtual-after": "30" });
+		// the CSS counter starts from `--virtual-before`, the labels are given by index
+		expect(code().children[0].dataset.lineNumber).toBe("41");
+	});
+
+	test("the lines staying in the window are not rendered again", () => {
+		const { output, view, code } = createView();
+		const line_10 = code().children[10];
+		output.scroll(15 * line_height);
+		expect(code().dataset.firstLine).toBe("5");
+		expect(code().children[5]).toBe(line_10);
+
+		line_10.innerHTML = "kept";
+		view.patch({ start: 7, deleteCount: 1, lines: [plain("changed"), plain("added")] });
+		expect(code().children[2].innerHTML).toBe("<span>changed</span>");
+		expect(code().children[3].innerHTML).toBe("<span>added</span>");
+		expect(code().children[6]).toBe(line_10);
+		expect(line_10.innerHTML).toBe("kept");
+		expect(line_10.dataset.lineNumber).toBe("12");
+		expect(output.style.properties["--virtual-after"]).toBe("66");
+
+		const start = lineStarts(view.lines)[11];
+		view.setDecorations([{ start, end: start, lineClassName: "x" }]);
+		expect(code().children[6]).toBe(line_10);
+		expect(line_10.className).toBe("line x");
+		expect(line_10.innerHTML).toBe("kept");
+	});
+});
+
+describe("Wrapping indent", () => {
+	test("each line is given its indentation", () => {
+		const output = new FakeDocument().createElement("div");
+		const view = createLinesView(output as unknown as HTMLElement);
+		view.setWrappingIndent(4);
+		view.render(["\tfoo", "  bar", "baz"].map(plain));
+		expect(output.innerHTML).toContain('<span class="line" style="--wrapping-indent:4"><span>\tfoo</span></span>');
+		expect(output.innerHTML).toContain('<span class="line" style="--wrapping-indent:2"><span>  bar</span></span>');
+		expect(output.innerHTML).toContain('<span class="line"><span>baz</span></span>');
+
+		view.setWrappingIndent(void 0);
+		expect(output.innerHTML).not.toContain("--wrapping-indent");
+	});
+
+	test("the indentation is kept with the line styles", () => {
+		const output = new FakeDocument().createElement("div");
+		const view = createLinesView(output as unknown as HTMLElement);
+		view.setWrappingIndent(4);
+		view.setDecorations([{ start: 0, end: 0, lineStyle: "color:red" }]);
+		view.render([plain(" \tfoo")]);
+		expect(output.innerHTML).toContain('style="--wrapping-indent:4;color:red"');
+	});
+});
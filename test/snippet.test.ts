@@ -0,0 +1,108 @@
+import { hookSnippets, indentSnippet, insertSnippet, parseSnippet } from "../src/plugins";
+import { createEditor, type } from "./dom";
+
+describe("parseSnippet", () => {
+	test("tab stops and mirrors", () => {
+		const snippet = parseSnippet("for (let ${1:i} = 0; $1 < ${2:n}; $1++) {\n\t$0\n}");
+		expect(snippet.text).toBe("for (let i = 0; i < n; i++) {\n\t\n}");
+		expect(snippet.tabStops).toEqual([
+			{
+				index: 1,
+				ranges: [
+					{ start: 9, end: 10 },
+					{ start: 16, end: 17 },
+					{ start: 23, end: 24 },
+				],
+			},
+			{ index: 2, ranges: [{ start: 20, end: 21 }] },
+			{ index: 0, ranges: [{ start: 31, end: 31 }] },
+		]);
+	});
+
+	test("mirror before the placeholder", () => {
+		const snippet = parseSnippet("$1 ${1:foo}");
+		expect(snippet.text).toBe("foo foo");
+		expect(snippet.tabStops[0].ranges).toEqual([
+			{ start: 4, end: 7 },
+			{ start: 0, end: 3 },
+		]);
+	});
+
+	test("nested placeholders", () => {
+		const snippet = parseSnippet("${1:foo ${2:bar}}");
+		expect(snippet.text).toBe("foo bar");
+		expect(snippet.tabStops.map(({ index, ranges }) => [index, ranges])).toEqual([
+			[1, [{ start: 0, end: 7 }]],
+			[2, [{ start: 4, end: 7 }]],
+			[0, [{ start: 7, end: 7 }]],
+		]);
+	});
+
+	test("choices", () => {
+		const snippet = parseSnippet("${1|let,const,var\\,|} x");
+		expect(snippet.text).toBe("let x");
+		expect(snippet.tabStops[0]).toEqual({
+			index: 1,
+			ranges: [{ start: 0, end: 3 }],
+			choices: ["let", "const", "var,"],
+		});
+	});
+
+	test("variables", () => {
+		const snippet = parseSnippet("<b>$TM_SELECTED_TEXT</b>${UNKNOWN:none}", { TM_SELECTED_TEXT: "bold" });
+		expect(snippet.text).toBe("<b>bold</b>none");
+	});
+
+	test("escapes and invalid syntax", () => {
+		expect(parseSnippet("\\$1 \\} \\\\").text).toBe("$1 } \\");
+		expect(parseSnippet("${1:abc $ ${").text).toBe("${1:abc $ ${");
+		expect(parseSnippet("$").tabStops).toEqual([{ index: 0, ranges: [{ start: 1, end: 1 }] }]);
+	});
+});
+
+describe("indentSnippet", () => {
+	test("indent the lines after the first one", () => {
+		const snippet = indentSnippet(parseSnippet("if (${1:x}) {\n\t$0\n}"), "  ", { tabSize: 2, insertSpaces: true });
+		expect(snippet.text).toBe("if (x) {\n    \n  }");
+		expect(snippet.tabStops).toEqual([
+			{ index: 1, ranges: [{ start: 4, end: 5 }] },
+			{ index: 0, ranges: [{ start: 13, end: 13 }] },
+		]);
+	});
+
+	test("tabs", () => {
+		const snippet = indentSnippet(parseSnippet("a\n\tb\t$1"), "\t", { tabSize: 4, insertSpaces: false });
+		expect(snippet.text).toBe("a\n\t\tb\t");
+		expect(snippet.tabStops[0].ranges).toEqual([{ start: 6, end: 6 }]);
+	});
+});
+
+describe("Snippet session", () => {
+	test("the mirrors are undone along with the placeholder", () => {
+		const editor = createEditor({}, hookSnippets);
+		insertSnippet(editor, "$1 ${1:foo}");
+		expect(editor.value).toBe("foo foo");
+
+		type(editor, "x");
+		expect(editor.value).toBe("x x");
+		type(editor, "y");
+		expect(editor.value).toBe("xy xy");
+
+		editor.undo();
+		expect(editor.value).toBe("foo foo");
+		editor.undo();
+		expect(editor.value).toBe("");
+		expect(editor.canUndo).toBe(false);
+
+		editor.redo();
+		expect(editor.value).toBe("foo foo");
+		editor.redo();
+		expect(editor.value).toBe("xy xy");
+	});
+
+	test("a read-only editor inserts nothing", () => {
+		const editor = createEditor({ value: "a", readOnly: true }, hookSnippets);
+		insertSnippet(editor, "${1:foo}");
+		expect(editor.value).toBe("a");
+	});
+});
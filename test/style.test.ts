@@ -0,0 +1,41 @@
+import { injectStyle } from "../src/style";
+import { createDocument, createEditor } from "./dom";
+
+describe("injectStyle", () => {
+	test("the style is removed by its last user", () => {
+		const doc = createDocument();
+		const first = injectStyle(doc, ".a {}");
+		const second = injectStyle(doc, ".a {}");
+		expect(doc.head.children.length).toBe(1);
+
+		first();
+		// removing twice counts once
+		first();
+		expect(doc.head.children.length).toBe(1);
+		second();
+		expect(doc.head.children.length).toBe(0);
+
+		// injected again once removed
+		const third = injectStyle(doc, ".a {}");
+		expect(doc.head.children.length).toBe(1);
+		third();
+		expect(doc.head.children.length).toBe(0);
+	});
+
+	test("theme variants shared by two editors", () => {
+		const document = createDocument();
+		const styles = () =>
+			document.head.children.map((element) => element.childNodes.map((node) => node.textContent).join(""));
+		const theme = { light: "github-light", dark: "github-dark" };
+		const first = createEditor({ theme, document });
+		const second = createEditor({ theme, document });
+		const variants = styles().find((text) => text.includes("--fg-dark"));
+		expect(variants).toBeDefined();
+
+		first.updateOptions({ theme: "github-light" });
+		first.dispose();
+		expect(styles()).toContainEqual(variants);
+		second.dispose();
+		expect(styles()).toEqual([]);
+	});
+});
@@ -1,4 +1,14 @@
-import { Action, PatchAction, SelectAction, State, indentText, outdentText } from "../src/plugins";
+import {
+	Action,
+	PatchAction,
+	SelectAction,
+	State,
+	default_indentation_rules,
+	enterText,
+	indentText,
+	outdentOnType,
+	outdentText,
+} from "../src/plugins";
 
 interface TabConfig {
 	tabSize: number;
@@ -198,6 +208,80 @@ describe("Editor Commands - UnShiftCommand", () => {
 	});
 });
 
+describe("Editor Commands - Enter", () => {
+	test("brackets", () => {
+		expect(testEnter("if (a) {|}", "typescript")).toBe("if (a) {\n    |\n}");
+		expect(testEnter("    foo(|", "plaintext")).toBe("    foo(\n        |");
+		expect(testEnter("  foo|", "plaintext")).toBe("  foo\n|");
+	});
+
+	test("comments", () => {
+		expect(testEnter("/**|", "typescript")).toBe("/**\n * |");
+		expect(testEnter("/**| */", "typescript")).toBe("/**\n * |\n */");
+		expect(testEnter("\t/**\n\t * foo|", "typescript")).toBe("\t/**\n\t * foo\n\t * |");
+		expect(testEnter("\t/**\n\t */|", "typescript")).toBe("\t/**\n\t */\n\t|");
+		expect(testEnter("    // foo |bar", "typescript")).toBe("    // foo \n    // |bar");
+		expect(testEnter("    // foo|", "typescript")).toBe("    // foo\n    |");
+	});
+
+	test("keywords", () => {
+		expect(testEnter("def foo():|", "python")).toBe("def foo():\n    |");
+		expect(testEnter("key:|", "yaml")).toBe("key:\n    |");
+		expect(testEnter("items.each do |item||", "ruby")).toBe("items.each do |item|\n    |");
+		expect(testEnter("def foo|", "ruby")).toBe("def foo\n    |");
+	});
+
+	test("tags", () => {
+		expect(testEnter("<div>|</div>", "html")).toBe("<div>\n    |\n</div>");
+		expect(testEnter("<ul>|", "html")).toBe("<ul>\n    |");
+		expect(testEnter("<br>|", "html")).toBe("<br>\n|");
+	});
+});
+
+describe("Editor Commands - Outdent on type", () => {
+	test("closing brackets", () => {
+		expect(testType("if (a) {\n    |", "}", "typescript")).toBe("if (a) {\n}|");
+		expect(testType("if (a) {\n\tfoo();\n\t|", "}", "typescript", tab_4)).toBe("if (a) {\n\tfoo();\n}|");
+		expect(testType("if (a) {\n    foo(|", "}", "typescript")).toBeUndefined();
+	});
+
+	test("keywords", () => {
+		expect(testType("if a:\n    foo()\n    else|", ":", "python")).toBe("if a:\n    foo()\nelse:|");
+		expect(testType("if a\n    foo\n    en|", "d", "ruby")).toBe("if a\n    foo\nend|");
+		expect(testType("<div>\n    |", "<", "html")).toBeUndefined();
+		expect(testType("<div>\n    </div|", ">", "html")).toBe("<div>\n</div>|");
+	});
+
+	test("already outdented", () => {
+		expect(testType("    if a:\n        foo()\n    else|", ":", "python")).toBeUndefined();
+		expect(testType("end\n    en|", "d", "ruby")).toBe("end\nend|");
+	});
+});
+
+function testEnter(text: string, language: string, config: TabConfig = space_4): string {
+	const state = caretState(text);
+	const rules = default_indentation_rules.find((rules) => rules.language === language);
+	return caretText(applyEdit(state, enterText(state, config, rules)));
+}
+
+function testType(text: string, key: string, language: string, config: TabConfig = space_4): string | undefined {
+	const state = caretState(text);
+	const rules = default_indentation_rules.find((rules) => rules.language === language);
+	const action = outdentOnType(state, key, config, rules);
+	return action.patch && caretText(applyEdit(state, action));
+}
+
+// `|` marks the caret, the last one when the text contains several
+function caretState(text: string): State {
+	const caret = text.lastIndexOf("|");
+	const value = text.slice(0, caret) + text.slice(caret + 1);
+	return { value, selectionStart: caret, selectionEnd: caret };
+}
+
+function caretText(state: State): string {
+	return state.value.slice(0, state.selectionStart) + "|" + state.value.slice(state.selectionEnd);
+}
+
 function testShiftCommand(value: string, selectionStart: number, selectionEnd: number, config: TabConfig): void {
 	const state = { value, selectionStart, selectionEnd };
 
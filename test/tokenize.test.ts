@@ -0,0 +1,185 @@
+import { createHighlighter } from "shiki";
+import { createTokenizer, lineTokens, type LinesPatch, type TokenizedLine, type Tokenizer } from "../src/tokenize";
+
+const options = {
+	lang: "typescript",
+	theme: "github-dark",
+};
+
+const highlighter = await createHighlighter({ langs: [options.lang], themes: [options.theme, "github-light"] });
+
+const simpleText = "const a = 1;\n/* comment\nstill comment */\nlet b = `x\n${a}`;\nfoo();";
+
+function edit(value: string, start: number, end: number, text: string): string {
+	return value.slice(0, start) + text + value.slice(end);
+}
+
+function testUpdate(value: string, start: number, end: number, text: string) {
+	const tokenizer = createTokenizer(highlighter);
+	tokenizer.reset(value, options);
+
+	const new_value = edit(value, start, end, text);
+	const patch = tokenizer.update(new_value);
+
+	const expected = createTokenizer(highlighter);
+	expected.reset(new_value, options);
+
+	expect(tokenizer.lines.map((line) => line.tokens)).toEqual(expected.lines.map((line) => line.tokens));
+
+	return patch;
+}
+
+describe("Tokenizer - update", () => {
+	test("single line", () => {
+		const patch = testUpdate(simpleText, 6, 7, "abc");
+		expect(patch.start).toBe(0);
+		expect(patch.deleteCount).toBe(1);
+		expect(patch.lines.length).toBe(1);
+	});
+
+	test("open block comment", () => {
+		// the state converges once the old comment is closed
+		const patch = testUpdate(simpleText, 0, 0, "/*");
+		expect(patch.start).toBe(0);
+		expect(patch.deleteCount).toBe(2);
+	});
+
+	test("close block comment", () => {
+		const start = simpleText.indexOf("/*");
+		const patch = testUpdate(simpleText, start, start + 2, "");
+		expect(patch.start).toBe(1);
+		expect(patch.deleteCount).toBe(2);
+	});
+
+	test("insert lines", () => {
+		const start = simpleText.indexOf("let");
+		const patch = testUpdate(simpleText, start, start, "\n\n");
+		expect(patch.start).toBe(3);
+		expect(patch.deleteCount).toBe(0);
+		expect(patch.lines.length).toBe(2);
+	});
+
+	test("delete lines", () => {
+		const start = simpleText.indexOf("\n");
+		const end = simpleText.indexOf("let");
+		testUpdate(simpleText, start, end, "\n");
+	});
+
+	test("unterminated template string", () => {
+		const start = simpleText.indexOf("`");
+		testUpdate(simpleText, start, start + 1, "");
+	});
+});
+
+describe("Tokenizer - background", () => {
+	const background = { ...options, maxLines: 2 };
+	const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+	async function testBackground(run: (tokenizer: Tokenizer, apply: (patch: LinesPatch) => void) => string) {
+		// the patches are applied to a copy, as the view does
+		let rendered: TokenizedLine[] = [];
+		const apply = ({ start, deleteCount, lines }: LinesPatch) => {
+			rendered = rendered.slice(0, start).concat(lines, rendered.slice(start + deleteCount));
+		};
+		const tokenizer = createTokenizer(highlighter, apply);
+		const value = run(tokenizer, apply);
+		for (let i = 0; i < 10; i++) {
+			await tick();
+		}
+
+		const expected = createTokenizer(highlighter);
+		expected.reset(value, options);
+		expect(tokenizer.lines.map((line) => line.tokens)).toEqual(expected.lines.map((line) => line.tokens));
+		expect(rendered).toEqual(tokenizer.lines as TokenizedLine[]);
+	}
+
+	test("reset", async () => {
+		await testBackground((tokenizer, apply) => {
+			const patch = tokenizer.reset(simpleText, background);
+			apply(patch);
+			expect(patch.lines.length).toBe(6);
+			expect(patch.lines[1].state).toBeDefined();
+			const text = "still comment */";
+			expect(patch.lines[2]).toEqual({ text, tokens: [{ content: text, offset: 0 }], state: undefined });
+			return simpleText;
+		});
+	});
+
+	test("an edit longer than maxLines", async () => {
+		await testBackground((tokenizer, apply) => {
+			apply(tokenizer.reset(simpleText, background));
+			const value = edit(simpleText, 0, 0, "/*");
+			const patch = tokenizer.update(value);
+			apply(patch);
+			expect(patch).toMatchObject({ start: 0, deleteCount: 2 });
+			return value;
+		});
+	});
+
+	test("an edit after the tokenized lines", async () => {
+		await testBackground((tokenizer, apply) => {
+			apply(tokenizer.reset(simpleText, background));
+			const value = edit(simpleText, simpleText.length, simpleText.length, "\n\n`");
+			const patch = tokenizer.update(value);
+			apply(patch);
+			expect(patch.start).toBe(6);
+			expect(patch.lines.every(({ state }) => state === undefined)).toBe(true);
+			return value;
+		});
+	});
+});
+
+describe("Tokenizer - theme variants", () => {
+	const variants = {
+		lang: options.lang,
+		theme: { light: "github-light", dark: options.theme },
+	};
+
+	test("colors are css variables", () => {
+		const tokenizer = createTokenizer(highlighter);
+		tokenizer.reset("const a = 1;", variants);
+
+		const [token] = tokenizer.lines[0].tokens;
+		expect(token.color).toBeUndefined();
+		expect(token.htmlStyle).toEqual({ "--shiki-light": "#D73A49", "--shiki-dark": "#F97583" });
+	});
+
+	test("update", () => {
+		const tokenizer = createTokenizer(highlighter);
+		tokenizer.reset(simpleText, variants);
+
+		const new_value = edit(simpleText, 0, 0, "/*");
+		tokenizer.update(new_value);
+
+		const expected = createTokenizer(highlighter);
+		expected.reset(new_value, variants);
+
+		expect(tokenizer.lines.map((line) => line.tokens)).toEqual(expected.lines.map((line) => line.tokens));
+	});
+});
+
+describe("lineTokens", () => {
+	test("scopes and offsets", () => {
+		const tokenizer = createTokenizer(highlighter);
+		tokenizer.reset(simpleText, { ...options, scopes: true });
+
+		const tokens = lineTokens(tokenizer.lines[1], 13);
+		expect(tokens.map(({ text }) => text).join("")).toBe("/* comment");
+		expect(tokens[0]).toMatchObject({ start: 13, end: 15, color: expect.any(String), variantColors: undefined });
+		expect(tokens.at(-1)!.end).toBe(23);
+		expect(tokens.every(({ scopes }) => scopes.includes("comment.block.ts"))).toBe(true);
+
+		const keyword = lineTokens(tokenizer.lines[0], 0)[0];
+		expect(keyword).toMatchObject({ text: "const", start: 0, end: 5 });
+		expect(keyword.scopes.at(-1)).toBe("storage.type.ts");
+	});
+
+	test("theme variants and plain text", () => {
+		const tokenizer = createTokenizer(highlighter);
+		tokenizer.reset("const a", { lang: options.lang, theme: { light: "github-light", dark: options.theme } });
+		expect(lineTokens(tokenizer.lines[0], 0)[0].variantColors).toEqual({ light: "#D73A49", dark: "#F97583" });
+
+		tokenizer.reset("const a", { lang: "text", theme: options.theme });
+		expect(lineTokens(tokenizer.lines[0], 0)).toMatchObject([{ text: "const a", start: 0, end: 7, scopes: [] }]);
+	});
+});
@@ -0,0 +1,142 @@
+import { createHighlighter, type Highlighter } from "shiki";
+import type { LinesPatch, TokenizedLine } from "../src/tokenize";
+import {
+	createWorkerHighlighter,
+	exposeHighlighter,
+	type MessageEndpoint,
+	type WorkerHighlighter,
+} from "../src/worker";
+
+const options = {
+	lang: "typescript",
+	theme: "github-dark",
+};
+
+// the worker side is played by the test, the requests are collected and answered by hand
+function createEndpoint() {
+	const target = new EventTarget();
+	const requests: any[] = [];
+	const endpoint = {
+		postMessage: (message: unknown) => requests.push(message),
+		addEventListener: target.addEventListener.bind(target),
+		removeEventListener: target.removeEventListener.bind(target),
+	} as MessageEndpoint;
+	const respond = (data: unknown) => target.dispatchEvent(new MessageEvent("message", { data }));
+	return { endpoint, requests, respond };
+}
+
+async function connect(onError?: (error: Error) => void) {
+	const { endpoint, requests, respond } = createEndpoint();
+	const connecting = createWorkerHighlighter(endpoint, { onError });
+	respond({ type: "load", id: requests[0].id, themes: [], langs: [options.lang] });
+	const highlighter = await connecting;
+	requests.length = 0;
+
+	const patches: LinesPatch[] = [];
+	const tokenizer = highlighter.createTokenizer((patch) => patches.push(patch));
+	return { requests, respond, tokenizer, patches };
+}
+
+function highlightedLine(text: string): TokenizedLine {
+	return { text, tokens: [{ content: text, offset: 0, color: "#fff" }], state: void 0 };
+}
+
+describe("createWorkerHighlighter", () => {
+	test("one request is in flight, and an outdated response is discarded", async () => {
+		const { requests, respond, tokenizer, patches } = await connect();
+
+		expect(tokenizer.reset("a", options).lines.map((line) => line.text)).toEqual(["a"]);
+		tokenizer.update("ab");
+		tokenizer.update("abc");
+		expect(requests).toEqual([{ type: "reset", tokenizer: 1, version: 1, value: "a", options }]);
+
+		const patch = (version: number, text: string) => ({
+			type: "patch",
+			tokenizer: 1,
+			version,
+			patch: { start: 0, deleteCount: 1, lines: [highlightedLine(text)] },
+		});
+
+		respond(patch(1, "a"));
+		expect(patches).toEqual([]);
+		expect(tokenizer.lines.map((line) => line.text)).toEqual(["abc"]);
+		expect(requests[1]).toEqual({ type: "update", tokenizer: 1, version: 3, value: "abc" });
+
+		respond(patch(3, "abc"));
+		expect(requests.length).toBe(2);
+		expect(patches).toEqual([{ start: 0, deleteCount: 1, lines: [highlightedLine("abc")] }]);
+		expect(tokenizer.lines).toEqual([highlightedLine("abc")]);
+	});
+
+	test("an error is reported, and the tokenizer starts over", async () => {
+		const errors: Error[] = [];
+		const { requests, respond, tokenizer, patches } = await connect((error) => errors.push(error));
+
+		tokenizer.reset("a", options);
+		tokenizer.update("ab");
+		respond({ type: "error", tokenizer: 1, version: 1, error: "Language `typescript` not found" });
+
+		expect(errors.map((error) => error.message)).toEqual(["Language `typescript` not found"]);
+		expect(patches).toEqual([]);
+		// the outdated request failed, the latest value is sent again from scratch
+		expect(requests[1]).toEqual({ type: "reset", tokenizer: 1, version: 2, value: "ab", options });
+
+		respond({ type: "error", tokenizer: 1, version: 2, error: "again" });
+		expect(requests.length).toBe(2);
+
+		tokenizer.update("abc");
+		expect(requests[2]).toEqual({ type: "reset", tokenizer: 1, version: 3, value: "abc", options });
+		// the plain lines are kept
+		expect(tokenizer.lines.map((line) => line.text)).toEqual(["abc"]);
+	});
+
+	test("a failed load rejects", async () => {
+		const { endpoint, requests, respond } = createEndpoint();
+		const connecting = createWorkerHighlighter(endpoint, { langs: ["nope"] });
+		respond({ type: "load", id: requests[0].id, themes: [], langs: [], error: "Language `nope` not found" });
+		await expect(connecting).rejects.toThrow("Language `nope` not found");
+	});
+});
+
+describe("exposeHighlighter", () => {
+	const channel = new MessageChannel();
+	let shiki: Highlighter;
+	let highlighter: WorkerHighlighter;
+	let dispose: () => void;
+
+	beforeAll(async () => {
+		shiki = await createHighlighter({ langs: [], themes: [] });
+		channel.port1.start();
+		channel.port2.start();
+		dispose = exposeHighlighter(shiki, channel.port1);
+		highlighter = await createWorkerHighlighter(channel.port2, {
+			themes: [options.theme],
+			langs: [options.lang],
+		});
+	});
+
+	afterAll(() => {
+		highlighter.dispose();
+		dispose();
+		channel.port1.close();
+		channel.port2.close();
+	});
+
+	test("the themes and languages are loaded in the worker", async () => {
+		expect(highlighter.getLoadedLanguages()).toContain(options.lang);
+		expect(highlighter.getTheme(options.theme).bg).toBe(shiki.getTheme(options.theme).bg);
+
+		await expect(highlighter.loadLanguage("nope" as never)).rejects.toThrow();
+	});
+
+	test("the lines are highlighted in the worker", async () => {
+		const patch = await new Promise<LinesPatch>((resolve) => {
+			const tokenizer = highlighter.createTokenizer(resolve);
+			tokenizer.reset("const a = 1;\nlet b;", options);
+		});
+
+		expect(patch.start).toBe(0);
+		expect(patch.lines.map((line) => line.text)).toEqual(["const a = 1;", "let b;"]);
+		expect(patch.lines[0].tokens.length).toBeGreaterThan(1);
+	});
+});